@@ -1,56 +1,243 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo, useSyncExternalStore } from 'react';
 import VirtualKeyboard from './components/VirtualKeyboard';
-import { correctText, autocompleteText } from './services/geminiService';
-import { AppState } from './types';
-import { Loader2, Camera as CameraIcon, BrainCircuit, Volume2, VolumeX, Hand, Settings, X, SlidersHorizontal, Cpu, Radio, ChevronRight, CheckCircle2, MousePointer2, ScanFace } from 'lucide-react';
-
-// Declare globals loaded via script tags in index.html
-declare var Hands: any;
-declare var drawConnectors: any;
-declare var drawLandmarks: any;
+import HudEditor, { caretIndexFromPoint, ghostOffsetFromPoint } from './components/HudEditor';
+import SuggestionBar, { suggestionIndex } from './components/SuggestionBar';
+import DiffReview, { parseReviewKey, ReviewCommand } from './components/DiffReview';
+import CalibrationWizard from './components/CalibrationWizard';
+import HandCursors from './components/HandCursors';
+import PerfHud from './components/PerfHud';
+import { createCursorFilter, CursorFilter } from './services/cursorFilter';
+import { createFrameStore } from './services/frameStore';
+import { drawHandOverlay } from './services/handOverlay';
+import { createPerfMonitor } from './services/perfMonitor';
+import { createKeyTargeter, KeyTargeter } from './services/keyTargeting';
+import { CalibrationRecorder, CalibrationResult, CalibrationStatus, createCalibrationRecorder } from './services/calibration';
+import { COMMON_WORDS, WORD_FREQUENCIES } from './data/words';
+import { aiRequests, aiRequiresNetwork, COMPLETION_CHANNEL, rewriteText, streamCompletion } from './services/textAI';
+import { AIRequestEvent } from './services/aiRequestManager';
+import { createTemplateId, DEFAULT_TEMPLATES, loadTemplates, saveTemplates } from './services/promptTemplates';
+import { DICTATION_KEY, FIX_DICTATION_KEY, getLayout, listLayouts, withAIActions } from './layouts';
+import { activeProfile, addProfile, downloadProfiles, importProfiles, loadSettingsStore, parseProfilesFile, removeProfile, saveSettingsStore, SettingsStore, updateActiveSettings } from './services/settingsStore';
+import { createDwellTracker, DwellTracker } from './services/dwellClick';
+import { createGestureEngine, GestureEngine, LANDMARKS } from './services/gestureEngine';
+import { createGhostGestureDetector, GhostGesture, GhostGestureDetector } from './services/ghostGestures';
+import { readHandTrackerConfig, startHandTracker } from './services/handTracking';
+import { assignHands } from './services/handRoles';
+import { applyShift, dispatchKey, findKey } from './services/keyDispatcher';
+import { createPredictor, predictionContext } from './services/predictor';
+import { decodeSwipe, isSwipe, keyCentersFromRects, Point } from './services/swipeDecoder';
+import { createHistory, EditOptions, recordEdit, redo, setPresent, TextHistory, undo } from './services/textHistory';
+import { applyEdits, combineCorrections } from './services/textDiff';
+import { createRecognizer, insertDictated } from './services/dictation';
+import { isOnline, subscribeOnline } from './services/networkStatus';
+import { createBuffer, deleteBackward, hasSelection, insertText, moveCaret, replaceRange, selectionRange, setCaret } from './services/textBuffer';
+import { createSessionRecorder, downloadSession, parseSession } from './services/sessionRecorder';
+import { createReplaySource, ReplaySource } from './services/sessionReplay';
+import { ActivationMode, AppSettings, AppState, Correction, CursorFilterKind, PromptTemplate, GestureMode, HandCursor, HandMode, HandSide, HandTracker, HandTrackingFrame, KeyboardLayer, KeyDispatchAction, LandmarkSession, ShiftState, TextBuffer } from './types';
+import { Loader2, Camera as CameraIcon, BrainCircuit, Volume2, VolumeX, Hand, Settings, X, SlidersHorizontal, Cpu, Radio, ChevronRight, CheckCircle2, MousePointer2, ScanFace, Circle, Square, FileUp, Mic, Activity, WifiOff } from 'lucide-react';
 
 // Initial Defaults
-const DEFAULT_PINCH_THRESHOLD = 0.04; 
-const DEFAULT_CURSOR_SMOOTHING = 0.4;
-const DEFAULT_EXTENSION_THRESHOLD = 0.0; // Y-distance offset to consider finger extended
-
-// Define HAND_CONNECTIONS locally as the module export can be unreliable in some CDN builds
-const HAND_CONNECTIONS = [
-  [0, 1], [1, 2], [2, 3], [3, 4],
-  [0, 5], [5, 6], [6, 7], [7, 8],
-  [5, 9], [9, 10], [10, 11], [11, 12],
-  [9, 13], [13, 14], [14, 15], [15, 16],
-  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20]
-] as [number, number][];
+const CAPS_LOCK_DOUBLE_TAP_MS = 500; // Second Shift tap within this window engages Caps Lock
+const DWELL_ACTIVE_FLASH_MS = 150;
+const AI_NOTICE_MS = 3000;
+
+// HUD wording for request manager events the user should know about. Completions are superseded
+// and throttled as a matter of course while typing, so only actions the user asked for report those.
+const aiNoticeFor = (event: AIRequestEvent): string | null => {
+  const userTriggered = event.channel !== COMPLETION_CHANNEL;
+  switch (event.type) {
+    case 'throttled': return userTriggered ? `AI_BUDGET_REACHED // RETRY IN ${Math.ceil(event.retryInMs / 1000)}S` : null;
+    case 'cancelled': return userTriggered && event.reason === 'superseded' ? 'AI_REQUEST_DROPPED // SUPERSEDED' : null;
+    case 'cached': return 'AI_RESULT_FROM_CACHE';
+    case 'failed': return 'AI_REQUEST_FAILED';
+    default: return null;
+  }
+};
+
+interface HandState {
+  engine: GestureEngine;
+  dwell: DwellTracker;
+  ghostGestures: GhostGestureDetector;
+  cursorFilter: CursorFilter;
+  targeter: KeyTargeter;
+  cursor: { x: number; y: number } | null; // Filtered position, parked while clicking
+  swipePath: Point[] | null; // Cursor trace of the current pinch, for swipe typing
+}
+
+// Words offered after a swipe; picking one replaces the word typed at `start`
+interface SwipeSuggestions {
+  words: string[];
+  selected: number;
+  start: number;
+}
+
+// AI action result under review, for the span of the buffer starting at `start`
+interface CorrectionReview {
+  correction: Correction;
+  start: number;
+  decisions: Record<number, boolean>;
+}
+
+// Open calibration wizard: recorder progress, then the thresholds applied to the profile or the error
+interface CalibrationRun {
+  status: CalibrationStatus;
+  result: CalibrationResult | null;
+  error: string | null;
+  fromTutorial: boolean; // Resume the tutorial once the wizard closes
+}
+
+// Streamed AI completion anchored at the caret; `accepted` chars of `text` were already typed
+interface GhostCompletion {
+  text: string;
+  accepted: number;
+  at: number;
+  source: string; // Buffer text the ghost is valid for, any other edit dismisses it
+}
+
+const createHandState = (): HandState => ({
+  engine: createGestureEngine(),
+  dwell: createDwellTracker(),
+  ghostGestures: createGhostGestureDetector(),
+  cursorFilter: createCursorFilter(),
+  targeter: createKeyTargeter(),
+  cursor: null,
+  swipePath: null,
+});
+
+const resetHandState = (state: HandState) => {
+  state.engine.reset();
+  state.dwell.reset();
+  state.ghostGestures.reset();
+  state.cursorFilter.reset();
+  state.targeter.reset();
+  state.cursor = null;
+  state.swipePath = null;
+};
+
+// Cursor positions change every frame and go through the cursor store; React state only follows the discrete parts
+const sameCursorState = (a: HandCursor[], b: HandCursor[]) =>
+  a.length === b.length
+  && a.every((c, i) => c.hand === b[i].hand && c.isPinching === b[i].isPinching && c.hoveredKey === b[i].hoveredKey);
 
 function App() {
-  const [text, setText] = useState('');
+  const [history, setHistory] = useState<TextHistory>(() => createHistory(createBuffer()));
+  const buffer = history.present;
+  const text = buffer.text;
   const [appState, setAppState] = useState<AppState>(AppState.LOADING);
-  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
-  const [isPinching, setIsPinching] = useState(false);
-  const [gestureMode, setGestureMode] = useState<'move' | 'click' | 'wait'>('wait');
-  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
-  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [handCursors, setHandCursors] = useState<HandCursor[]>([]); // Changes on hover/pinch only
+  const [cursorStore] = useState(() => createFrameStore<HandCursor[]>([])); // Every frame
+  const [perf] = useState(createPerfMonitor);
+  const [showPerf, setShowPerf] = useState(false);
+  const [gestureMode, setGestureMode] = useState<GestureMode>('wait');
+  const [activeKeys, setActiveKeys] = useState<Partial<Record<HandSide, string>>>({});
+  const [isShiftHeld, setIsShiftHeld] = useState(false); // Assist hand fist in 'roles' mode
   const [keyRects, setKeyRects] = useState<Record<string, DOMRect>>({});
-  const [isProcessingAI, setIsProcessingAI] = useState(false);
+  const [suggestionRects, setSuggestionRects] = useState<Record<string, DOMRect>>({});
+  const [reviewRects, setReviewRects] = useState<Record<string, DOMRect>>({});
+  const [review, setReview] = useState<CorrectionReview | null>(null);
+  const [swipeSuggestions, setSwipeSuggestions] = useState<SwipeSuggestions | null>(null);
+  const [ghost, setGhost] = useState<GhostCompletion | null>(null);
+  const [recognizer] = useState(createRecognizer);
+  const online = useSyncExternalStore(subscribeOnline, isOnline);
+  // Remote AI and speech recognition grey out without a network; typing and tracking work fully offline
+  const aiAvailable = online || !aiRequiresNetwork;
+  const dictationAvailable = !!recognizer && (online || !recognizer.requiresNetwork);
+  const [isDictating, setIsDictating] = useState(false);
+  const [dictationPartial, setDictationPartial] = useState('');
+  const ghostText = ghost ? ghost.text.slice(ghost.accepted) : '';
+  // On-device next-word model, learns from what the user types
+  const [predictor] = useState(() => {
+    try {
+      return createPredictor(window.localStorage);
+    } catch (e) {
+      console.warn("Storage access failed", e);
+      return createPredictor();
+    }
+  });
+  const [isProcessingAI, setIsProcessingAI] = useState(false); // Mirrors the request manager
+  const [aiNotice, setAINotice] = useState<string | null>(null);
   const [cameraPermission, setCameraPermission] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [shiftState, setShiftState] = useState<ShiftState>('off');
+  const [keyboardLayer, setKeyboardLayer] = useState<KeyboardLayer>('base');
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
   
   // Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings] = useState({
-      cursorSmoothing: DEFAULT_CURSOR_SMOOTHING,
-      pinchThreshold: DEFAULT_PINCH_THRESHOLD,
-      extensionThreshold: DEFAULT_EXTENSION_THRESHOLD
-  });
+  const [settingsStore, setSettingsStore] = useState<SettingsStore>(loadSettingsStore);
+  const profile = activeProfile(settingsStore);
+  const settings = profile.settings;
+  // Edits always apply to the active profile
+  const setSettings = useCallback((update: (prev: AppSettings) => AppSettings) => {
+      setSettingsStore(prev => updateActiveSettings(prev, update));
+  }, []);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const updateTemplates = (next: PromptTemplate[]) => {
+      setTemplates(next);
+      saveTemplates(next);
+  };
+  const layout = useMemo(() => withAIActions(getLayout(settings.layoutId), templates), [settings.layoutId, templates]);
+  // Suggestion chips and review controls are hit-tested together with the keys
+  // Greyed-out keys are drawn but can't be hovered or pressed
+  const disabledKeyIds = useMemo(() => {
+    const rows = layout.layers[keyboardLayer] ?? layout.layers.base;
+    return rows.flat().filter(key =>
+      (!aiAvailable && (key.type === 'ai' || key.id === FIX_DICTATION_KEY.id))
+      || (!dictationAvailable && key.id === DICTATION_KEY.id)
+    ).map(key => key.id);
+  }, [layout, keyboardLayer, aiAvailable, dictationAvailable]);
+  const hitRects = useMemo(() => {
+    const rects = { ...keyRects, ...suggestionRects, ...reviewRects };
+    disabledKeyIds.forEach(id => { delete rects[id]; });
+    return rects;
+  }, [keyRects, suggestionRects, reviewRects, disabledKeyIds]);
+  // Top edge of the keys in screen pixels; swipes that accept ghost text only count above it
+  const keyboardTop = useMemo(() => Math.min(...Object.values(keyRects).map(rect => rect.top)), [keyRects]);
+  // Letter key centers on the current layer, the geometry swipes are decoded against
+  const swipeKeys = useMemo(() => {
+    const rows = layout.layers[keyboardLayer] ?? layout.layers.base;
+    const values = Object.fromEntries(rows.flat().filter(k => k.type !== 'action').map(k => [k.id, k.value]));
+    return keyCentersFromRects(keyRects, values);
+  }, [keyRects, layout, keyboardLayer]);
+  const isPinching = handCursors.some(c => c.isPinching);
+  const hoveredKeyIds = handCursors.map(c => c.hoveredKey).filter((id): id is string => id !== null);
+  const activeKeyIds = Object.values(activeKeys).filter((id): id is string => !!id);
+  // Holding Shift with the assist hand acts like a one-shot Shift on every key
+  const effectiveShift: ShiftState = isShiftHeld && shiftState === 'off' ? 'once' : shiftState;
+  const predictions = useMemo(
+    () => hasSelection(buffer) ? [] : predictor.predict(buffer.text.slice(0, buffer.focus)),
+    [predictor, buffer]
+  );
+  // Likely next letters get a slightly larger hit area on the current layer
+  const keyPriors = useMemo(() => {
+    const letters = predictor.nextLetters(buffer.text.slice(0, selectionRange(buffer)[0]));
+    const rows = layout.layers[keyboardLayer] ?? layout.layers.base;
+    return Object.fromEntries(rows.flat()
+      .filter(k => (k.type ?? 'char') === 'char' && letters[k.value.toLowerCase()])
+      .map(k => [k.id, letters[k.value.toLowerCase()]]));
+  }, [predictor, buffer, layout, keyboardLayer]);
+  // Swipe alternatives take over the bar until the next key press
+  const suggestions = swipeSuggestions?.words ?? predictions;
 
   // Tutorial State: 0=Off, 1=Welcome, 2=Move, 3=Click, 4=AI, 5=Done
   const [tutorialStep, setTutorialStep] = useState(0);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const cursorRef = useRef<{ x: number; y: number } | null>(null); // For smoothing
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Per-hand engines, smoothing and dwell state, kept between frames
+  const handStatesRef = useRef<Record<HandSide, HandState>>({ left: createHandState(), right: createHandState() });
+  const trackerRef = useRef<HandTracker | null>(null);
+  const recorderRef = useRef(createSessionRecorder());
+  const replayRef = useRef<ReplaySource | null>(null); // Set while a recorded session drives the tracking loop
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  const hudEditorRef = useRef<HTMLDivElement>(null);
+  const lastShiftTapRef = useRef(0);
+  const ghostRequestRef = useRef<AbortController | null>(null); // In-flight streamed completion
+  const pendingTapRef = useRef<Partial<Record<HandSide, string>>>({}); // Letter pressed at pinch start, typed on release unless swiped
 
   // Check for first-time user
   useEffect(() => {
@@ -134,6 +321,36 @@ function App() {
     }
   }, [isMuted]);
 
+  // Calibration wizard: onResults feeds the recorder and reports progress, the result lands in the active profile
+  const calibrationRef = useRef<CalibrationRecorder | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationRun | null>(null);
+
+  const startCalibration = (fromTutorial: boolean) => {
+      calibrationRef.current = createCalibrationRecorder();
+      setCalibration({ status: calibrationRef.current.update(null, performance.now()), result: null, error: null, fromTutorial });
+  };
+
+  const closeCalibration = () => {
+      calibrationRef.current = null;
+      if (calibration?.fromTutorial) setTutorialStep(2);
+      setCalibration(null);
+  };
+
+  const calibrationDone = calibration?.status.done ?? false;
+  useEffect(() => {
+      const recorder = calibrationRef.current;
+      if (!calibrationDone || !recorder) return;
+      calibrationRef.current = null;
+      try {
+          const result = recorder.result();
+          setSettings(p => ({...p, ...result}));
+          setCalibration(prev => prev && { ...prev, result });
+          playSound('success');
+      } catch (err) {
+          setCalibration(prev => prev && { ...prev, error: err instanceof Error ? err.message : 'Calibration failed' });
+      }
+  }, [calibrationDone, setSettings, playSound]);
+
   // Interactive Tutorial Logic: Auto-advance
   useEffect(() => {
     if (tutorialStep === 2 && gestureMode === 'move') {
@@ -156,177 +373,436 @@ function App() {
   }, [tutorialStep, gestureMode, isPinching, playSound]);
 
 
+  // Every text mutation goes through the history so it can be undone
+  const editBuffer = useCallback((edit: (prev: TextBuffer) => TextBuffer, options?: EditOptions) => {
+    setHistory(prev => recordEdit(prev, edit(prev.present), options));
+  }, []);
+
+  // --- AI Request Status ---
+  useEffect(() => {
+    let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = aiRequests.subscribe(event => {
+      setIsProcessingAI(aiRequests.pendingCount() > 0);
+      const notice = aiNoticeFor(event);
+      if (!notice) return;
+      setAINotice(notice);
+      clearTimeout(noticeTimer);
+      noticeTimer = setTimeout(() => setAINotice(null), AI_NOTICE_MS);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(noticeTimer);
+    };
+  }, []);
+
+  useEffect(() => {
+    saveSettingsStore(settingsStore);
+  }, [settingsStore]);
+
+  useEffect(() => {
+    aiRequests.setBudget(settings.aiRequestsPerMinute);
+  }, [settings.aiRequestsPerMinute]);
+
+  // --- Ghost Text Autocomplete ---
+  const dismissGhost = useCallback(() => {
+    ghostRequestRef.current?.abort();
+    ghostRequestRef.current = null;
+    setGhost(null);
+  }, []);
+
+  const requestCompletion = useCallback(async () => {
+    ghostRequestRef.current?.abort();
+    const request = new AbortController();
+    ghostRequestRef.current = request;
+    setGhost({ text: '', accepted: 0, at: buffer.focus, source: buffer.text });
+
+    let streamed = '';
+    for await (const chunk of streamCompletion(buffer.text.slice(0, buffer.focus), request.signal)) {
+      if (request.signal.aborted) return;
+      streamed += chunk;
+      const text = streamed;
+      setGhost(prev => prev && { ...prev, text });
+    }
+    if (ghostRequestRef.current !== request) return;
+    ghostRequestRef.current = null;
+    // Nothing came back (no provider, error, throttled): drop the empty ghost
+    if (!streamed) setGhost(null);
+  }, [buffer]);
+
+  // Types the ghost text up to `length` chars; the rest stays suggested, still streaming if it was
+  const acceptGhost = useCallback((length = Infinity) => {
+    if (!ghost || !ghostText) return;
+    const piece = ghostText.slice(0, length);
+    const source = ghost.source.slice(0, ghost.at) + piece + ghost.source.slice(ghost.at);
+    editBuffer(prev => insertText(prev, piece));
+    if (piece.length === ghostText.length && !ghostRequestRef.current) {
+      setGhost(null);
+    } else {
+      setGhost({ ...ghost, accepted: ghost.accepted + piece.length, at: ghost.at + piece.length, source });
+    }
+    playSound('success');
+  }, [ghost, ghostText, editBuffer, playSound]);
+
+  const handleGhostGesture = useCallback((gesture: GhostGesture) => {
+    if (!ghost) return;
+    if (gesture === 'accept') {
+      acceptGhost();
+      dismissGhost();
+    } else {
+      dismissGhost();
+      playSound('step');
+    }
+  }, [ghost, acceptGhost, dismissGhost, playSound]);
+
+  // Typing on or moving the caret cancels the suggestion and any request still streaming
+  useEffect(() => {
+    if (ghost && (buffer.text !== ghost.source || buffer.focus !== ghost.at || hasSelection(buffer))) dismissGhost();
+  }, [buffer, ghost, dismissGhost]);
+
+  // --- Voice Dictation ---
+  // Final phrases are inserted at the caret as marked segments; the keyboard keeps working alongside
+  const toggleDictation = useCallback(() => {
+    if (!recognizer) return;
+    if (isDictating) {
+      recognizer.stop();
+      return;
+    }
+    setIsDictating(true);
+    recognizer.start({
+      onPartial: setDictationPartial,
+      onFinal: (transcript) => {
+        if (!transcript) return;
+        editBuffer(prev => insertDictated(prev, transcript));
+      },
+      onError: (message) => console.warn("Dictation failed:", message),
+      onEnd: () => {
+        setIsDictating(false);
+        setDictationPartial('');
+      },
+    });
+    playSound('step');
+  }, [recognizer, isDictating, editBuffer, playSound]);
+
   // Handlers for keyboard actions
-  const handleKeyPress = useCallback(async (keyId: string) => {
-    playSound('click');
-    
-    switch (keyId) {
-      case 'backspace':
-        setText(prev => prev.slice(0, -1));
+  const handleKeyAction = useCallback(async (action: KeyDispatchAction) => {
+    switch (action.type) {
+      case 'insert':
+        // A typed word is one undo step, whitespace closes it
+        if (/\s/.test(action.text)) predictor.learn(text.slice(0, buffer.focus));
+        editBuffer(prev => insertText(prev, action.text), { group: 'typing', closeGroup: /\s/.test(action.text) });
+        if (shiftState === 'once') setShiftState('off');
         break;
-      case 'space':
-        setText(prev => prev + ' ');
+      case 'delete':
+        editBuffer(prev => deleteBackward(prev), { group: 'delete' });
         break;
-      case 'enter':
-        setText(prev => prev + '\n');
+      case 'newline':
+        editBuffer(prev => insertText(prev, '\n'));
         break;
-      case 'clear':
-        setText('');
+      case 'navigate':
+        // Shift + arrow extends the selection
+        setHistory(prev => setPresent(prev, moveCaret(prev.present, action.direction, action.unit, shiftState !== 'off')));
+        if (shiftState === 'once') setShiftState('off');
         break;
-      case 'ai-fix':
-        if (text.length > 0) {
-          setIsProcessingAI(true);
-          const fixed = await correctText(text);
-          setText(fixed);
-          setIsProcessingAI(false);
-          playSound('success');
+      case 'modifier':
+        if (action.modifier === 'SHIFT') {
+          // Tap = one-shot Shift, double-tap = Caps Lock, tap again to release
+          const now = performance.now();
+          const isDoubleTap = now - lastShiftTapRef.current < CAPS_LOCK_DOUBLE_TAP_MS;
+          lastShiftTapRef.current = now;
+          setShiftState(prev => {
+            if (prev === 'locked') return 'off';
+            if (isDoubleTap) return 'locked';
+            return prev === 'once' ? 'off' : 'once';
+          });
+        } else {
+          setKeyboardLayer(action.modifier === 'SYMBOLS' ? 'symbols' : action.modifier === 'AI_ACTIONS' ? 'ai' : 'base');
         }
         break;
-      case 'shift':
-        break;
-      default:
-        // Regular characters
-        const keyElement = document.querySelector(`[data-key-id="${keyId}"]`);
-        if (keyElement) {
-           const label = keyElement.textContent;
-           if (label && label.length === 1) {
-             setText(prev => prev + label.toLowerCase());
-           }
+      case 'command':
+        if (action.command === 'CLEAR') {
+          editBuffer(() => createBuffer());
+        } else if (action.command === 'UNDO') {
+          setHistory(prev => undo(prev));
+        } else if (action.command === 'REDO') {
+          setHistory(prev => redo(prev));
+        } else if (action.command === 'TOGGLE_DICTATION') {
+          setKeyboardLayer('base');
+          toggleDictation();
+        } else if (action.command === 'FIX_DICTATION') {
+          setKeyboardLayer('base');
+          const template = templates.find(t => t.id === 'fix') ?? templates[0];
+          const segments = buffer.segments.filter(s => s.source === 'dictation');
+          if (!template || segments.length === 0) break;
+          // Each segment is corrected on its own so typed text between them is never sent
+          const parts = [];
+          for (const segment of segments) {
+            const correction = await rewriteText(template, text.slice(segment.start, segment.end));
+            // Stop at the first segment that fails, the HUD notice says why
+            if (!correction) return;
+            parts.push({ start: segment.start, correction });
+          }
+          const combined = combineCorrections(text, parts);
+          if (combined.correction.edits.length > 0) setReview({ ...combined, decisions: {} });
+          playSound('success');
         }
         break;
+      case 'ai': {
+        const template = templates.find(t => t.id === action.templateId);
+        setKeyboardLayer('base');
+        if (!template || text.length === 0) break;
+        // Rewrite the selection if there is one, otherwise the whole text
+        const [start, end] = hasSelection(buffer) ? selectionRange(buffer) : [0, text.length];
+        const original = text.slice(start, end);
+        const correction = await rewriteText(template, original);
+        // Superseded, throttled or failed requests return nothing, the HUD notice says why
+        if (!correction) break;
+        // Changes are reviewed in the HUD before they touch the buffer
+        if (correction.edits.length > 0) setReview({ correction, start, decisions: {} });
+        playSound('success');
+        break;
+      }
+    }
+  }, [buffer, text, shiftState, playSound, editBuffer, predictor, templates, toggleDictation]);
+
+  // Swap the last swiped word for another candidate, unless the text moved on since
+  const applySuggestion = useCallback((index: number) => {
+    if (!swipeSuggestions || index === swipeSuggestions.selected || !swipeSuggestions.words[index]) return;
+    const { words, selected, start } = swipeSuggestions;
+    const typed = `${words[selected]} `;
+    editBuffer(prev => prev.text.slice(start, start + typed.length) === typed
+      ? replaceRange(prev, start, start + typed.length, `${words[index]} `)
+      : prev);
+    setSwipeSuggestions({ ...swipeSuggestions, selected: index });
+    playSound('click');
+  }, [swipeSuggestions, editBuffer, playSound]);
+
+  // --- AI Action Review ---
+  const finishReview = useCallback(({ correction, start, decisions }: CorrectionReview) => {
+    const end = start + correction.original.length;
+    const result = applyEdits(correction.original, correction.edits, edit => decisions[edit.id] === true);
+    editBuffer(prev => prev.text.slice(start, end) === correction.original ? replaceRange(prev, start, end, result) : prev);
+    setReview(null);
+  }, [editBuffer]);
+
+  const handleReviewCommand = useCallback((command: ReviewCommand) => {
+    if (!review) return;
+    const { edits } = review.correction;
+    const decisions = 'editId' in command
+      ? { ...review.decisions, [command.editId]: command.type === 'accept' }
+      : Object.fromEntries(edits.map(edit => [edit.id, command.type === 'accept-all']));
+    // The buffer only changes once every edit has a decision
+    if (edits.every(edit => edit.id in decisions)) {
+      finishReview({ ...review, decisions });
+      playSound('success');
+    } else {
+      setReview({ ...review, decisions });
+      playSound('click');
+    }
+  }, [review, finishReview, playSound]);
+
+  // Editing the reviewed span (e.g. undo while the request was in flight) makes the review stale
+  useEffect(() => {
+    if (!review) return;
+    const { start, correction } = review;
+    if (buffer.text.slice(start, start + correction.original.length) !== correction.original) setReview(null);
+  }, [buffer, review]);
+
+  // Complete the word at the caret, or add the next word, with the picked prediction
+  const applyPrediction = useCallback((index: number) => {
+    const prediction = predictions[index];
+    if (!prediction) return;
+    const before = text.slice(0, buffer.focus);
+    const { prefix } = predictionContext(before);
+    const word = prefix ? prediction : applyShift(prediction[0], effectiveShift) + prediction.slice(1);
+    const start = buffer.focus - prefix.length;
+    predictor.learn(before.slice(0, start) + word);
+    editBuffer(prev => replaceRange(prev, start, prev.focus, `${word} `));
+    if (shiftState === 'once') setShiftState('off');
+    playSound('click');
+  }, [predictions, text, buffer, effectiveShift, shiftState, predictor, editBuffer, playSound]);
+
+  // Every input source resolves key ids through the dispatcher
+  const handleKeyPress = useCallback((keyId: string) => {
+    const reviewCommand = parseReviewKey(keyId);
+    if (reviewCommand) {
+      handleReviewCommand(reviewCommand);
+      return;
+    }
+    const suggestion = suggestionIndex(keyId);
+    if (suggestion !== null) {
+      if (swipeSuggestions) applySuggestion(suggestion);
+      else applyPrediction(suggestion);
+      return;
     }
-  }, [text, playSound]);
+    const action = dispatchKey(layout, keyboardLayer, keyId, effectiveShift);
+    if (!action) return;
+    setSwipeSuggestions(null);
+    playSound('click');
+    handleKeyAction(action);
+  }, [layout, keyboardLayer, effectiveShift, playSound, handleKeyAction, swipeSuggestions, applySuggestion, applyPrediction, handleReviewCommand]);
+
+  // Types the best word for a finished swipe, false if the trace matched nothing
+  const commitSwipe = useCallback((path: Point[]) => {
+    const candidates = decodeSwipe(path, swipeKeys, COMMON_WORDS, WORD_FREQUENCIES);
+    if (candidates.length === 0) return false;
+    // Shift capitalizes the first letter of every candidate
+    const words = candidates.map(({ word }) => applyShift(word[0], effectiveShift) + word.slice(1));
+    const [start] = selectionRange(buffer);
+    const spacer = start > 0 && !/\s/.test(buffer.text[start - 1]) ? ' ' : '';
+    predictor.learn(buffer.text.slice(0, start) + spacer + words[0]);
+    editBuffer(prev => insertText(prev, `${spacer}${words[0]} `));
+    setSwipeSuggestions({ words, selected: 0, start: start + spacer.length });
+    if (shiftState === 'once') setShiftState('off');
+    playSound('click');
+    return true;
+  }, [swipeKeys, effectiveShift, shiftState, buffer, editBuffer, playSound, predictor]);
+
+  const isLetterKey = useCallback((keyId: string) => {
+    const key = findKey(layout, keyboardLayer, keyId);
+    return !!key && key.type !== 'action' && /^\p{L}$/u.test(key.value);
+  }, [layout, keyboardLayer]);
 
   // Main Hand Tracking Loop
-  const onResults = useCallback((results: any) => {
-    const canvas = canvasRef.current;
-    const video = videoRef.current;
-    if (!canvas || !video) return;
+  const onResults = useCallback((frame: HandTrackingFrame) => {
+    const frameStart = performance.now();
+    const hands = assignHands(frame.multiHandLandmarks, frame.multiHandedness, settings.handMode, settings.pointerHand);
+
+    // Draw hand skeleton - Futuristic Style (assist hand dimmed)
+    const overlayHands = hands.map(({ role, landmarks }) => ({ landmarks, assist: role === 'assist' }));
+    const overlay = trackerRef.current?.overlay;
+    if (overlay) {
+      // The tracker owns the canvas and draws its own frames; hands keep their detection order
+      overlay.setRoles(overlayHands.map(h => h.assist));
+      if (!frame.overlayDrawn) overlay.draw(overlayHands);
+    } else {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) drawHandOverlay(ctx, frame.image, overlayHands);
+    }
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const isDwellMode = settings.activationMode === 'dwell';
+    const now = performance.now();
+    const calibrationRecorder = calibrationRef.current;
+    if (calibrationRecorder) {
+      const status = calibrationRecorder.update(hands[0]?.landmarks ?? null, now);
+      setCalibration(prev => prev && { ...prev, status });
+    }
+    const nextCursors: HandCursor[] = [];
+    let primaryMode: GestureMode = 'wait';
+    let assistClick = false;
+    let assistShift = false;
 
-    // Reset canvas
-    ctx.save();
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw video frame to canvas
-    // Dim the video to make UI pop
-    ctx.globalAlpha = 0.3;
-    ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
-    ctx.globalAlpha = 1.0;
-
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      // Process only the first hand detected for simplicity
-      const landmarks = results.multiHandLandmarks[0];
-
-      // Draw hand skeleton - Futuristic Style
-      if (typeof drawConnectors !== 'undefined' && typeof drawLandmarks !== 'undefined') {
-        drawConnectors(ctx, landmarks, HAND_CONNECTIONS, { color: 'rgba(34, 211, 238, 0.4)', lineWidth: 1 });
-        drawLandmarks(ctx, landmarks, { color: '#22d3ee', lineWidth: 1, radius: 2 });
+    for (const { side, role, landmarks } of hands) {
+      const handState = handStatesRef.current[side];
+
+      // Calibration poses (pinch, fist) must not click keys behind the wizard
+      if (calibrationRecorder) continue;
+
+      // --- Gesture Detection ---
+      const gesture = handState.engine.process(landmarks, settings);
+
+      // Command poses (pinky = undo, index + pinky = redo)
+      if (gesture.command) {
+        setHistory(prev => gesture.command === 'undo' ? undo(prev) : redo(prev));
+        playSound('click');
       }
 
-      // Landmark indices: 8 = Index Tip, 4 = Thumb Tip
-      const indexTip = landmarks[8];
-      const thumbTip = landmarks[4];
+      // Above the keys, a swipe right accepts the ghost completion and an open palm held still dismisses it.
+      // The assist hand rests open beside the keys, so only pointing hands take part.
+      if (role !== 'assist') {
+        const overKeyboard = landmarks[LANDMARKS.INDEX_TIP].y * window.innerHeight >= keyboardTop;
+        const ghostGesture = handState.ghostGestures.update(landmarks, gesture, now, overKeyboard);
+        if (ghostGesture) handleGhostGesture(ghostGesture);
+      }
 
-      // Convert normalized coordinates to screen pixel coordinates
-      // Video is mirrored horizontally usually, so x = 1 - x
-      const x = (1 - indexTip.x) * window.innerWidth;
-      const y = indexTip.y * window.innerHeight;
+      // Assist hand: pinch clicks for the pointer, a closed fist holds Shift
+      if (role === 'assist') {
+        assistClick = gesture.mode === 'click';
+        assistShift = gesture.extendedCount === 0 && !gesture.isPinching;
+        continue;
+      }
+      if (nextCursors.length === 0) primaryMode = gesture.mode;
 
-      // --- Gesture Detection ---
+      const indexTip = landmarks[LANDMARKS.INDEX_TIP];
 
-      // Helper: Check if finger is extended (Tip is above PIP joint in Y-axis)
-      const isExtended = (tipIdx: number, pipIdx: number) => 
-            landmarks[tipIdx].y < (landmarks[pipIdx].y - settings.extensionThreshold);
-      
-      const indexUp = isExtended(8, 6);
-      const middleUp = isExtended(12, 10);
-      const ringUp = isExtended(16, 14);
-      const pinkyUp = isExtended(20, 18);
-      
-      // Count extended fingers
-      let extendedFingers = 0;
-      if (indexUp) extendedFingers++;
-      if (middleUp) extendedFingers++;
-      if (ringUp) extendedFingers++;
-      if (pinkyUp) extendedFingers++;
-
-      // Check Pinch (Thumb + Index distance)
-      const dx = indexTip.x - thumbTip.x;
-      const dy = indexTip.y - thumbTip.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      const isPinchGesture = distance < settings.pinchThreshold;
-
-      // Check "2 Fingers" Gesture (Peace Sign)
-      const isTwoFingerGesture = indexUp && middleUp && !ringUp && !pinkyUp;
-
-      // Check "5 Fingers" / Open Hand
-      const isOpenHand = extendedFingers >= 3;
-
-      // --- Mode Logic ---
-      
-      let shouldUpdateCursor = false;
-      let shouldTriggerClick = false;
+      // Video is mirrored horizontally usually, so x = 1 - x
+      const raw = { x: 1 - indexTip.x, y: indexTip.y };
 
       // Cursor moves ONLY when hand is open (Open Hand).
-      if (isOpenHand && !isPinchGesture) {
-          shouldUpdateCursor = true;
-          setGestureMode('move');
-      } else if (isPinchGesture || isTwoFingerGesture) {
-          // If Pinch OR 2-Finger gesture, we click.
-          // We STOP updating cursor to prevent jitter (Cursor Parking).
-          shouldUpdateCursor = false;
-          shouldTriggerClick = true;
-          setGestureMode('click');
-      } else {
-          setGestureMode('wait');
-      }
+      // Pinch OR 2-Finger gesture clicks; the cursor is parked to prevent jitter.
+      // In dwell mode any hand pose moves the cursor and hovering clicks instead.
+      // With swipe typing a held pinch keeps moving the cursor to trace a word.
+      const isSwiping = !isDwellMode && settings.swipeTyping && gesture.isPinching;
+      const shouldUpdateCursor = isDwellMode || gesture.mode === 'move' || isSwiping;
+      const shouldTriggerClick = !isDwellMode && gesture.mode === 'click';
 
       // --- Cursor Update ---
+      // Filtered in normalized coordinates, then converted to screen pixels
       if (shouldUpdateCursor) {
-          if (!cursorRef.current) {
-            cursorRef.current = { x, y };
-          } else {
-            // Apply configured smoothing
-            const smoothFactor = settings.cursorSmoothing;
-            cursorRef.current.x = cursorRef.current.x + (x - cursorRef.current.x) * smoothFactor;
-            cursorRef.current.y = cursorRef.current.y + (y - cursorRef.current.y) * smoothFactor;
+          const filtered = handState.cursorFilter.update(raw, now, settings);
+          let x = filtered.x * window.innerWidth;
+          const y = filtered.y * window.innerHeight;
+
+          // Split keyboard: each hand stays on its own half of the screen
+          if (settings.handMode === 'split') {
+            const mid = window.innerWidth / 2;
+            x = side === 'left' ? Math.min(x, mid) : Math.max(x, mid);
           }
+          handState.cursor = { x, y };
       }
       
-      const smoothedCursor = cursorRef.current ? { ...cursorRef.current } : { x, y };
-      setCursor(smoothedCursor);
-      setIsPinching(shouldTriggerClick);
+      const smoothedCursor = handState.cursor ? { ...handState.cursor } : { x: raw.x * window.innerWidth, y: raw.y * window.innerHeight };
+
+      // --- Swipe Trace ---
+      // Collected while pinching, consumed by the click effect on release
+      if (shouldTriggerClick && settings.swipeTyping) {
+        handState.swipePath = [...(handState.swipePath ?? []), smoothedCursor];
+      }
 
       // --- Hit Testing ---
-      if (smoothedCursor) {
-          let hitKey: string | null = null;
-          for (const keyId of Object.keys(keyRects)) {
-            const rect = keyRects[keyId];
-            if (
-              smoothedCursor.x >= rect.left &&
-              smoothedCursor.x <= rect.right &&
-              smoothedCursor.y >= rect.top &&
-              smoothedCursor.y <= rect.bottom
-            ) {
-              hitKey = keyId;
-              break;
-            }
-          }
-          setHoveredKey(hitKey);
+      const hitKey = handState.targeter.update(smoothedCursor, hitRects, keyPriors);
+
+      // --- Dwell Activation ---
+      let dwellProgress = 0;
+      if (isDwellMode) {
+        const dwell = handState.dwell.update(hitKey, now, settings.dwellTimeMs);
+        dwellProgress = dwell.progress;
+        if (dwell.fired) {
+          const firedKey = dwell.fired;
+          setActiveKeys(prev => ({ ...prev, [side]: firedKey }));
+          handleKeyPress(firedKey);
+          setTimeout(() => setActiveKeys(prev => prev[side] === firedKey ? { ...prev, [side]: undefined } : prev), DWELL_ACTIVE_FLASH_MS);
+        }
       }
 
-    } else {
-      setCursor(null);
-      setHoveredKey(null);
-      setIsPinching(false);
-      setGestureMode('wait');
+      nextCursors.push({ hand: side, ...smoothedCursor, isPinching: shouldTriggerClick, hoveredKey: hitKey, dwellProgress });
+    }
+
+    // The assist hand clicks on behalf of the pointer (no cursor parking needed)
+    if (assistClick && !isDwellMode) {
+      nextCursors.forEach(c => { c.isPinching = true; });
     }
-    
-    ctx.restore();
-  }, [keyRects, settings]);
+
+    // Forget hands that left the frame so they start fresh when they return
+    (['left', 'right'] as HandSide[]).forEach(side => {
+      if (!hands.some(h => h.side === side)) resetHandState(handStatesRef.current[side]);
+    });
+
+    cursorStore.set(nextCursors);
+    setHandCursors(prev => sameCursorState(prev, nextCursors) ? prev : nextCursors);
+    setGestureMode(primaryMode);
+    setIsShiftHeld(assistShift);
+
+    perf.record(performance.now() - frameStart, frame.inferenceMs, now);
+  }, [hitRects, keyboardTop, keyPriors, settings, playSound, handleKeyPress, handleGhostGesture]);
+
+  const resetHandTracking = () => {
+    resetHandState(handStatesRef.current.left);
+    resetHandState(handStatesRef.current.right);
+    cursorStore.set([]);
+    setHandCursors([]);
+    setGestureMode('wait');
+    setIsShiftHeld(false);
+  };
 
   // Keep latest onResults in a ref to avoid re-initializing Hands/Camera on prop changes
   const onResultsRef = useRef(onResults);
@@ -334,102 +810,181 @@ function App() {
     onResultsRef.current = onResults;
   }, [onResults]);
 
+  // --- Session Recording & Replay ---
+  const toggleRecording = () => {
+    if (recorderRef.current.isRecording()) {
+      downloadSession(recorderRef.current.stop());
+      setIsRecording(false);
+    } else {
+      recorderRef.current.start();
+      setIsRecording(true);
+    }
+  };
+
+  const startReplay = useCallback((session: LandmarkSession) => {
+    replayRef.current?.stop();
+    resetHandTracking();
+    // Replayed sessions carry landmarks only, no camera image
+    replayRef.current = createReplaySource(session, (frame) => onResultsRef.current({
+      multiHandLandmarks: frame.multiHandLandmarks,
+      multiHandedness: frame.multiHandedness ?? [],
+      image: null,
+      inferenceMs: null,
+    }), { loop: true });
+    replayRef.current.start();
+    setIsReplaying(true);
+    setAppState(AppState.READY);
+  }, []);
+
+  const stopReplay = () => {
+    replayRef.current?.stop();
+    replayRef.current = null;
+    setIsReplaying(false);
+    resetHandTracking();
+  };
+
+  const loadProfilesFile = async (file: File) => {
+    try {
+      const imported = parseProfilesFile(await file.text());
+      setSettingsStore(prev => importProfiles(prev, imported));
+      setProfileError(null);
+    } catch (err) {
+      console.error("Failed to import profiles", err);
+      setProfileError(err instanceof Error ? err.message : 'Invalid profiles file');
+    }
+  };
+
+  const loadSessionFile = async (file: File) => {
+    try {
+      startReplay(parseSession(await file.text()));
+    } catch (err) {
+      console.error("Failed to load session file", err);
+    }
+  };
+
   // Handle click triggering separately to avoid dependency loops in onResults
-  const prevPinchRef = useRef(false);
+  const prevPinchRef = useRef<Partial<Record<HandSide, boolean>>>({});
   useEffect(() => {
-    if (isPinching && !prevPinchRef.current && hoveredKey) {
-       // Gesture started
-       setActiveKey(hoveredKey);
-       handleKeyPress(hoveredKey);
-    } else if (!isPinching && prevPinchRef.current) {
-       // Gesture ended
-       setActiveKey(null);
-    }
-    prevPinchRef.current = isPinching;
-  }, [isPinching, hoveredKey, handleKeyPress]);
+    const wasPinching = prevPinchRef.current;
+    handCursors.forEach(c => {
+      if (c.isPinching && !wasPinching[c.hand]) {
+        // Gesture started
+        if (c.hoveredKey) {
+          const key = c.hoveredKey;
+          setActiveKeys(prev => ({ ...prev, [c.hand]: key }));
+          // A letter may start a swipe, so it is only typed once the pinch ends
+          if (settings.swipeTyping && isLetterKey(key)) {
+            pendingTapRef.current[c.hand] = key;
+          } else {
+            handleKeyPress(key);
+          }
+        } else if (hudEditorRef.current) {
+          // Pinching a ghost word accepts the suggestion up to it, other HUD text places the caret
+          const ghostOffset = ghostOffsetFromPoint(hudEditorRef.current, c.x, c.y);
+          const index = caretIndexFromPoint(hudEditorRef.current, c.x, c.y);
+          if (ghostOffset !== null) {
+            acceptGhost(ghostOffset);
+          } else if (index !== null) {
+            setHistory(prev => setPresent(prev, setCaret(prev.present, index)));
+            playSound('click');
+          }
+        }
+      }
+    });
+    // Gesture ended, or the hand left the frame mid-gesture
+    (Object.keys(wasPinching) as HandSide[]).forEach(hand => {
+      const cursor = handCursors.find(c => c.hand === hand);
+      if (wasPinching[hand] && !cursor?.isPinching) {
+        setActiveKeys(prev => ({ ...prev, [hand]: undefined }));
+        const pendingKey = pendingTapRef.current[hand];
+        const path = handStatesRef.current[hand].swipePath;
+        handStatesRef.current[hand].swipePath = null;
+        delete pendingTapRef.current[hand];
+        // A hand that left the frame mid-gesture types nothing
+        if (pendingKey && cursor) {
+          const swiped = path !== null && isSwipe(path, swipeKeys.keySize) && commitSwipe(path);
+          if (!swiped) handleKeyPress(pendingKey);
+        }
+      }
+    });
+    prevPinchRef.current = Object.fromEntries(handCursors.map(c => [c.hand, c.isPinching]));
+  }, [handCursors, handleKeyPress, playSound, settings.swipeTyping, isLetterKey, swipeKeys, commitSwipe, acceptGhost]);
 
+  // Track a second hand only when a two-hand mode needs it
+  useEffect(() => {
+    trackerRef.current?.setMaxHands(settings.handMode === 'single' ? 1 : 2);
+  }, [settings.handMode]);
 
   useEffect(() => {
-    let hands: any = null;
-    let animationFrameId: number;
     let stream: MediaStream | null = null;
-    let retryCount = 0;
+    // Aborted on unmount; a tracker still loading then leaves the canvas alone (StrictMode mounts twice)
+    const setup = new AbortController();
+
+    // ?replay=<url> runs a recorded session instead of the camera (demos, headless CI)
+    const replayUrl = new URLSearchParams(window.location.search).get('replay');
+    if (replayUrl) {
+        fetch(replayUrl)
+            .then(res => res.text())
+            .then(json => startReplay(parseSession(json)))
+            .catch(err => {
+                console.error("Session replay failed", err);
+                setAppState(AppState.ERROR);
+            });
+        return () => replayRef.current?.stop();
+    }
+
+    const startCamera = async () => {
+        const constraints = {
+            video: {
+                width: { ideal: 1280 },
+                height: { ideal: 720 },
+                facingMode: 'user'
+            }
+        };
+
+        stream = await navigator.mediaDevices.getUserMedia(constraints);
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = stream;
+        await new Promise<void>((resolve) => {
+            video.onloadedmetadata = () => {
+                video.play();
+                resolve();
+            }
+        });
+        setCameraPermission(true);
+    };
 
     const setupHands = async () => {
-        // Initialize Camera
-        if (videoRef.current) {
-            try {
-                // Initial check for Hands library availability
-                // Use a retry mechanism instead of throwing immediate error
-                if (typeof Hands === 'undefined') {
-                     if (retryCount < 20) {
-                        retryCount++;
-                        setTimeout(setupHands, 500); // Retry every 500ms
-                        return;
-                     } else {
-                        console.error("Hands library timed out.");
-                        setAppState(AppState.ERROR);
-                        return;
-                     }
-                }
-
-                // Hands is now a global class from the script tag
-                hands = new Hands({
-                  locateFile: (file: string) => {
-                    return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-                  },
-                });
-
-                hands.setOptions({
-                  maxNumHands: 1,
-                  modelComplexity: 1,
-                  minDetectionConfidence: 0.5,
-                  minTrackingConfidence: 0.5,
-                });
-
-                hands.onResults((results: any) => {
-                    if (onResultsRef.current) {
-                        onResultsRef.current(results);
-                    }
-                });
-
-                const constraints = {
-                    video: {
-                        width: { ideal: 1280 },
-                        height: { ideal: 720 },
-                        facingMode: 'user'
-                    }
-                };
-
-                stream = await navigator.mediaDevices.getUserMedia(constraints);
-                videoRef.current.srcObject = stream;
-                
-                await new Promise<void>((resolve) => {
-                    if (!videoRef.current) return;
-                    videoRef.current.onloadedmetadata = () => {
-                        videoRef.current!.play();
-                        resolve();
-                    }
-                });
-
-                setAppState(AppState.READY);
-                setCameraPermission(true);
-
-                const processFrame = async () => {
-                    if (videoRef.current && hands) {
-                        if (videoRef.current.readyState >= 2) {
-                             await hands.send({ image: videoRef.current });
-                        }
-                    }
-                    animationFrameId = requestAnimationFrame(processFrame);
-                };
-                processFrame();
-
-            } catch (err) {
-                console.error("Camera/Hands init failed", err);
-                // Do not throw, just set state
-                setAppState(AppState.ERROR);
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        if (!video || !canvas) return;
+        try {
+            // Backend from ?tracker= or HAND_TRACKER, see services/handTracking.ts
+            const tracker = await startHandTracker(readHandTrackerConfig(), {
+                video,
+                canvas,
+                maxHands: settings.handMode === 'single' ? 1 : 2,
+                signal: setup.signal,
+                onFrame: (frame) => {
+                    // A running replay owns the tracking loop
+                    if (replayRef.current) return;
+                    recorderRef.current.record(frame);
+                    onResultsRef.current(frame);
+                },
+            }, startCamera);
+            if (setup.signal.aborted) {
+                tracker.stop();
+                return;
             }
+            trackerRef.current = tracker;
+            perf.setTracker(tracker.id);
+            setAppState(AppState.READY);
+        } catch (err) {
+            if (setup.signal.aborted) return;
+            console.error("Camera/Hands init failed", err);
+            // Do not throw, just set state
+            setAppState(AppState.ERROR);
         }
     };
 
@@ -437,8 +992,10 @@ function App() {
     
     // Cleanup
     return () => {
-        if (animationFrameId) cancelAnimationFrame(animationFrameId);
-        if (hands) hands.close();
+        setup.abort();
+        trackerRef.current?.stop();
+        trackerRef.current = null;
+        replayRef.current?.stop();
         if (stream) {
             stream.getTracks().forEach(track => track.stop());
         }
@@ -448,7 +1005,11 @@ function App() {
   // Adjust canvas size to window
   useEffect(() => {
       const handleResize = () => {
-          if(canvasRef.current && videoRef.current) {
+          // Once a tracker takes the canvas over, it can only be resized through the tracker
+          const overlay = trackerRef.current?.overlay;
+          if (overlay) {
+              overlay.resize(window.innerWidth, window.innerHeight);
+          } else if(canvasRef.current && videoRef.current) {
               canvasRef.current.width = window.innerWidth;
               canvasRef.current.height = window.innerHeight;
           }
@@ -502,8 +1063,44 @@ function App() {
                         {gestureMode === 'wait' && "NO_SIGNAL"}
                     </span>
                 </div>
+                {!online && (
+                    <div className="flex items-center gap-2 px-3 py-1 rounded border border-amber-500/50 bg-amber-500/10 text-amber-400" title={aiAvailable ? "No network connection" : "No network connection, AI features unavailable"}>
+                        <WifiOff size={14} />
+                        <span className="text-xs font-bold tracking-wider">OFFLINE</span>
+                    </div>
+                )}
 
                 <div className="flex items-center gap-4">
+                     <button 
+                        onClick={toggleDictation}
+                        disabled={!dictationAvailable}
+                        title={!recognizer ? "Speech recognition not supported" : !dictationAvailable ? "Dictation needs a network connection" : isDictating ? "Stop dictation" : "Start dictation"}
+                        className={`transition-colors disabled:opacity-30 ${isDictating ? 'text-purple-400 animate-pulse' : 'text-cyan-600 hover:text-cyan-300'}`}
+                    >
+                        <Mic size={18} />
+                    </button>
+                     <button 
+                        onClick={() => setShowPerf(prev => !prev)}
+                        title={showPerf ? "Hide performance HUD" : "Show performance HUD"}
+                        className={`transition-colors ${showPerf ? 'text-cyan-300' : 'text-cyan-600 hover:text-cyan-300'}`}
+                    >
+                        <Activity size={18} />
+                    </button>
+                     <button 
+                        onClick={toggleRecording}
+                        disabled={isReplaying}
+                        title={isRecording ? "Stop & download session" : "Record landmark session"}
+                        className={`transition-colors disabled:opacity-30 ${isRecording ? 'text-red-500 animate-pulse' : 'text-cyan-600 hover:text-cyan-300'}`}
+                    >
+                        <Circle size={18} fill={isRecording ? 'currentColor' : 'none'} />
+                    </button>
+                     <button 
+                        onClick={() => isReplaying ? stopReplay() : sessionInputRef.current?.click()}
+                        title={isReplaying ? "Stop replay" : "Replay session file"}
+                        className={`transition-colors ${isReplaying ? 'text-amber-400' : 'text-cyan-600 hover:text-cyan-300'}`}
+                    >
+                        {isReplaying ? <Square size={18} /> : <FileUp size={18} />}
+                    </button>
                      <button 
                         onClick={() => setIsMuted(!isMuted)} 
                         className="text-cyan-600 hover:text-cyan-300 transition-colors"
@@ -530,30 +1127,54 @@ function App() {
 
             <div className="glass-panel relative rounded-lg p-8 w-full max-w-4xl border border-cyan-500/30 pointer-events-auto">
                 <div className="absolute -top-3 -left-1 text-xs text-cyan-500/50 bg-slate-900 px-2">OUTPUT_STREAM</div>
+                {aiNotice && (
+                    <div className="absolute -top-3 right-4 text-xs text-amber-400 bg-slate-900 px-2 tracking-widest">{aiNotice}</div>
+                )}
                 
-                <textarea
-                    value={text}
-                    readOnly
-                    placeholder="INITIALIZE INPUT..."
-                    className="w-full h-40 bg-transparent text-5xl text-cyan-50 outline-none resize-none placeholder-cyan-900/50 leading-tight font-light tracking-wide"
-                />
+                {review ? (
+                    <DiffReview
+                        correction={review.correction}
+                        decisions={review.decisions}
+                        hoveredKeyIds={hoveredKeyIds}
+                        activeKeyIds={activeKeyIds}
+                        setRects={setReviewRects}
+                    />
+                ) : (
+                    <HudEditor
+                        ref={hudEditorRef}
+                        buffer={buffer}
+                        placeholder="INITIALIZE INPUT..."
+                        ghostText={ghostText}
+                    />
+                )}
+                {isDictating && (
+                    <div className="mt-2 text-sm text-purple-300 tracking-wide truncate">
+                        <Mic size={14} className="inline mr-2 animate-pulse" />
+                        {dictationPartial || 'LISTENING...'}
+                    </div>
+                )}
                 
                 <div className="mt-6 flex justify-between items-center border-t border-cyan-900/30 pt-4">
-                    <div className="text-xs text-cyan-600 flex gap-4 uppercase tracking-widest">
+                    <div className="text-xs text-cyan-600 flex flex-wrap gap-x-4 gap-y-1 uppercase tracking-widest">
+                        {ghost && (
+                            <>
+                                <span className="text-cyan-300">[ SWIPE RIGHT ABOVE KEYS: ACCEPT ]</span>
+                                <span className="text-cyan-300">[ PINCH WORD: ACCEPT TO WORD ]</span>
+                                <span className="text-cyan-300">[ HOLD PALM ABOVE KEYS: DISMISS ]</span>
+                            </>
+                        )}
                         <span>[ OPEN HAND: MOVE ]</span>
                         <span>[ PINCH: EXECUTE ]</span>
+                        <span>[ PINCH TEXT: PLACE CARET ]</span>
+                        {settings.swipeTyping && <span>[ PINCH + DRAG: SWIPE WORD ]</span>}
+                        <span>[ PINKY: UNDO ]</span>
+                        <span>[ INDEX+PINKY: REDO ]</span>
                     </div>
                     <button 
-                         className="flex items-center gap-2 px-6 py-2 bg-cyan-950/50 text-cyan-400 border border-cyan-500/50 text-sm font-bold tracking-widest hover:bg-cyan-500/20 hover:border-cyan-400 hover:shadow-[0_0_15px_rgba(34,211,238,0.3)] transition-all duration-300 group"
-                         onClick={async () => {
-                             setIsProcessingAI(true);
-                             const completed = await autocompleteText(text);
-                             if(completed) {
-                                setText(prev => prev + completed);
-                                playSound('success');
-                             }
-                             setIsProcessingAI(false);
-                         }}
+                         className="flex items-center gap-2 px-6 py-2 bg-cyan-950/50 text-cyan-400 border border-cyan-500/50 text-sm font-bold tracking-widest hover:bg-cyan-500/20 hover:border-cyan-400 hover:shadow-[0_0_15px_rgba(34,211,238,0.3)] transition-all duration-300 group disabled:opacity-30 disabled:pointer-events-none"
+                         onClick={requestCompletion}
+                         disabled={!aiAvailable}
+                         title={aiAvailable ? undefined : "AI needs a network connection"}
                     >
                         {isProcessingAI ? <Loader2 className="animate-spin" size={16}/> : <BrainCircuit size={16} className="group-hover:text-white"/>}
                         AI_AUTOCOMPLETE
@@ -565,40 +1186,30 @@ function App() {
         {/* Keyboard Area */}
         <div className="pb-12 relative">
              <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-full mb-2 text-cyan-800 text-[10px] tracking-[0.5em]">VIRTUAL_KEYBOARD_INTERFACE_V2.0</div>
+             <SuggestionBar
+                suggestions={suggestions}
+                selectedIndex={swipeSuggestions?.selected}
+                hoveredKeyIds={hoveredKeyIds}
+                activeKeyIds={activeKeyIds}
+                setRects={setSuggestionRects}
+             />
              <VirtualKeyboard 
                 onKeyPress={(key) => {}} // Handled via effect for gesture mapping
-                hoveredKeyId={hoveredKey}
-                activeKeyId={activeKey}
-                setKeyRects={(rects) => setKeyRects(prev => ({...prev, ...rects}))}
+                hoveredKeyIds={hoveredKeyIds}
+                activeKeyIds={activeKeyIds}
+                disabledKeyIds={disabledKeyIds}
+                layout={layout}
+                layer={keyboardLayer}
+                shiftState={effectiveShift}
+                setKeyRects={setKeyRects}
              />
         </div>
       </div>
 
       {/* Futuristic Cursor */}
-      {cursor && (
-        <div 
-            className="fixed pointer-events-none z-[100] transition-transform duration-100 ease-linear"
-            style={{ 
-                left: cursor.x, 
-                top: cursor.y,
-                transform: `translate(-50%, -50%) scale(${isPinching ? 0.8 : 1})`
-            }}
-        >
-            {/* Outer Ring */}
-            <div className={`w-12 h-12 border border-cyan-400 rounded-full flex items-center justify-center transition-all duration-200 ${isPinching ? 'border-2 bg-cyan-500/20 shadow-[0_0_20px_cyan]' : 'opacity-80'}`}>
-                {/* Inner Dots */}
-                <div className="w-1 h-1 bg-cyan-300 absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2"></div>
-                <div className="w-1 h-1 bg-cyan-300 absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2"></div>
-                <div className="w-1 h-1 bg-cyan-300 absolute left-0 top-1/2 -translate-x-1/2 -translate-y-1/2"></div>
-                <div className="w-1 h-1 bg-cyan-300 absolute right-0 top-1/2 translate-x-1/2 -translate-y-1/2"></div>
-                
-                {/* Center Point */}
-                <div className={`w-1 h-1 bg-white rounded-full ${isPinching ? 'w-2 h-2' : ''}`}></div>
-            </div>
-            {/* Trailing Line (Simulated) */}
-            <div className="absolute top-1/2 left-1/2 w-20 h-px bg-gradient-to-l from-cyan-500/0 to-cyan-500/0 transform rotate-45 -z-10"></div>
-        </div>
-      )}
+      <HandCursors store={cursorStore} showDwell={settings.activationMode === 'dwell'} />
+
+      {showPerf && <PerfHud stats={perf.stats} />}
 
       {/* Tutorial Overlay */}
       {tutorialStep > 0 && (
@@ -631,7 +1242,7 @@ function App() {
                            <h2 className="text-3xl font-bold text-cyan-400 tracking-[0.2em] uppercase">Initialising Link</h2>
                            <p className="text-cyan-100 text-lg">Welcome to AirType AI. <br/>Calibrating neural gesture interface.</p>
                            <button 
-                                onClick={() => { playSound('step'); setTutorialStep(2); }}
+                                onClick={() => { playSound('step'); setTutorialStep(0); startCalibration(true); }}
                                 className="px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-black font-bold tracking-widest uppercase rounded shadow-[0_0_20px_rgba(34,211,238,0.5)] transition-all"
                            >
                                Start Protocol
@@ -665,7 +1276,7 @@ function App() {
                        <div className="space-y-6 animate-in fade-in slide-in-from-right-10 duration-300">
                            <BrainCircuit size={64} className="mx-auto text-purple-400" />
                            <h2 className="text-2xl font-bold text-purple-400 tracking-widest uppercase">AI Core Online</h2>
-                           <p className="text-slate-300">Use <strong>AI FIX</strong> and <strong>COMPLETE</strong> to enhance typing speed.</p>
+                           <p className="text-slate-300">Use <strong>✨ AI</strong> actions and <strong>COMPLETE</strong> to enhance typing speed.</p>
                            <button 
                                 onClick={completeTutorial}
                                 className="px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-black font-bold tracking-widest uppercase rounded shadow-[0_0_20px_rgba(34,211,238,0.5)] transition-all flex items-center gap-2 mx-auto"
@@ -679,10 +1290,21 @@ function App() {
       )}
 
 
+      {calibration && (
+          <CalibrationWizard
+              status={calibration.status}
+              result={calibration.result}
+              error={calibration.error}
+              onRetry={() => startCalibration(calibration.fromTutorial)}
+              onCancel={closeCalibration}
+              onContinue={closeCalibration}
+          />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
-            <div className="glass-panel p-8 rounded-none border border-cyan-500/50 w-full max-w-sm shadow-[0_0_50px_rgba(34,211,238,0.2)] relative">
+            <div className="glass-panel p-8 rounded-none border border-cyan-500/50 w-full max-w-sm max-h-[90vh] overflow-y-auto shadow-[0_0_50px_rgba(34,211,238,0.2)] relative">
                 <div className="absolute top-0 left-0 w-4 h-4 border-l-2 border-t-2 border-cyan-400"></div>
                 <div className="absolute bottom-0 right-0 w-4 h-4 border-r-2 border-b-2 border-cyan-400"></div>
 
@@ -700,46 +1322,363 @@ function App() {
                 <div className="space-y-8">
                     <div className="space-y-2">
                         <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
-                            <span>Smoothing</span>
-                            <span className="text-cyan-300">{(settings.cursorSmoothing * 100).toFixed(0)}%</span>
+                            <span>Profile</span>
+                            <div className="flex gap-3 text-[10px] tracking-widest">
+                                <button onClick={() => downloadProfiles(settingsStore.profiles)} className="text-cyan-700 hover:text-cyan-400">EXPORT</button>
+                                <button onClick={() => profileInputRef.current?.click()} className="text-cyan-700 hover:text-cyan-400">IMPORT</button>
+                            </div>
+                        </div>
+                        <div className="flex gap-2">
+                            <select
+                                value={profile.id}
+                                onChange={(e) => {
+                                    setSettingsStore(p => ({...p, activeProfileId: e.target.value}));
+                                    setKeyboardLayer('base');
+                                }}
+                                className="flex-1 bg-slate-900 border border-cyan-800 text-cyan-300 text-sm p-2 outline-none focus:border-cyan-400"
+                            >
+                                {settingsStore.profiles.map(p => (
+                                    <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setSettingsStore(p => addProfile(p, `Profile ${p.profiles.length + 1}`))}
+                                className="px-3 text-xs font-bold border border-cyan-800 text-cyan-600 hover:text-cyan-300"
+                            >
+                                +
+                            </button>
+                            <button
+                                onClick={() => setSettingsStore(p => removeProfile(p, profile.id))}
+                                disabled={settingsStore.profiles.length === 1}
+                                className="px-2 border border-cyan-800 text-cyan-700 hover:text-red-400 disabled:opacity-30"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                        <input
+                            value={profile.name}
+                            onChange={(e) => setSettingsStore(p => ({...p, profiles: p.profiles.map(q => q.id === profile.id ? {...q, name: e.target.value} : q)}))}
+                            className="w-full bg-slate-900 border border-cyan-800 text-cyan-300 text-xs p-1 outline-none focus:border-cyan-400"
+                        />
+                        {profileError && <div className="text-[10px] text-red-400">{profileError}</div>}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Keyboard Layout</span>
+                        </div>
+                        <select
+                            value={settings.layoutId}
+                            onChange={(e) => {
+                                setSettings(p => ({...p, layoutId: e.target.value}));
+                                setKeyboardLayer('base');
+                            }}
+                            className="w-full bg-slate-900 border border-cyan-800 text-cyan-300 text-sm p-2 outline-none focus:border-cyan-400"
+                        >
+                            {listLayouts().map(l => (
+                                <option key={l.id} value={l.id}>{l.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Cursor Filter</span>
+                        </div>
+                        <select
+                            value={settings.cursorFilter}
+                            onChange={(e) => setSettings(p => ({...p, cursorFilter: e.target.value as CursorFilterKind}))}
+                            className="w-full bg-slate-900 border border-cyan-800 text-cyan-300 text-sm p-2 outline-none focus:border-cyan-400"
+                        >
+                            <option value="oneEuro">One Euro (speed adaptive)</option>
+                            <option value="kalman">Kalman (constant velocity)</option>
+                            <option value="ema">Fixed Smoothing</option>
+                        </select>
+                        {settings.cursorFilter === 'ema' && (
+                            <>
+                                <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                    <span>Smoothing</span>
+                                    <span className="text-cyan-300">{(settings.cursorSmoothing * 100).toFixed(0)}%</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.05" max="0.95" step="0.05"
+                                    value={settings.cursorSmoothing}
+                                    onChange={(e) => setSettings(p => ({...p, cursorSmoothing: parseFloat(e.target.value)}))}
+                                    className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                                />
+                            </>
+                        )}
+                        {settings.cursorFilter === 'oneEuro' && (
+                            <>
+                                <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                    <span>Still Cutoff</span>
+                                    <span className="text-cyan-300">{settings.oneEuroMinCutoff.toFixed(1)} Hz</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.1" max="5" step="0.1"
+                                    value={settings.oneEuroMinCutoff}
+                                    onChange={(e) => setSettings(p => ({...p, oneEuroMinCutoff: parseFloat(e.target.value)}))}
+                                    className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                                />
+                                <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                    <span>Speed Response</span>
+                                    <span className="text-cyan-300">{settings.oneEuroBeta.toFixed(0)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" max="50" step="1"
+                                    value={settings.oneEuroBeta}
+                                    onChange={(e) => setSettings(p => ({...p, oneEuroBeta: parseFloat(e.target.value)}))}
+                                    className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                                />
+                            </>
+                        )}
+                        {settings.cursorFilter === 'kalman' && (
+                            <>
+                                <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                    <span>Responsiveness</span>
+                                    <span className="text-cyan-300">{settings.kalmanProcessNoise.toFixed(1)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.5" max="20" step="0.5"
+                                    value={settings.kalmanProcessNoise}
+                                    onChange={(e) => setSettings(p => ({...p, kalmanProcessNoise: parseFloat(e.target.value)}))}
+                                    className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                                />
+                                <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                    <span>Noise Level</span>
+                                    <span className="text-cyan-300">{(settings.kalmanMeasurementNoise * 1000).toFixed(1)}</span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0.001" max="0.02" step="0.001"
+                                    value={settings.kalmanMeasurementNoise}
+                                    onChange={(e) => setSettings(p => ({...p, kalmanMeasurementNoise: parseFloat(e.target.value)}))}
+                                    className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                                />
+                            </>
+                        )}
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Prediction</span>
+                            <span className="text-cyan-300">{settings.cursorPredictionMs}ms</span>
                         </div>
                         <input 
                             type="range" 
-                            min="0.05" max="0.95" step="0.05"
-                            value={settings.cursorSmoothing}
-                            onChange={(e) => setSettings(p => ({...p, cursorSmoothing: parseFloat(e.target.value)}))}
+                            min="0" max="100" step="5"
+                            value={settings.cursorPredictionMs}
+                            onChange={(e) => setSettings(p => ({...p, cursorPredictionMs: parseInt(e.target.value, 10)}))}
                             className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
                         />
                     </div>
 
                     <div className="space-y-2">
                         <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
-                            <span>Pinch Threshold</span>
-                            <span className="text-cyan-300">{(settings.pinchThreshold * 100).toFixed(1)}</span>
+                            <span>Activation</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['pinch', 'dwell'] as ActivationMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => {
+                                        setSettings(p => ({...p, activationMode: mode}));
+                                        handStatesRef.current.left.dwell.reset();
+                                        handStatesRef.current.right.dwell.reset();
+                                    }}
+                                    className={`py-2 text-xs font-bold uppercase tracking-widest border transition-colors ${
+                                        settings.activationMode === mode
+                                            ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300'
+                                            : 'bg-slate-900 border-cyan-900 text-cyan-700 hover:text-cyan-400'
+                                    }`}
+                                >
+                                    {mode === 'pinch' ? 'Pinch' : 'Dwell'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {settings.activationMode === 'dwell' && (
+                        <div className="space-y-2">
+                            <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                                <span>Dwell Time</span>
+                                <span className="text-cyan-300">{settings.dwellTimeMs}ms</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="300" max="2000" step="100"
+                                value={settings.dwellTimeMs}
+                                onChange={(e) => setSettings(p => ({...p, dwellTimeMs: parseInt(e.target.value, 10)}))}
+                                className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                            />
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Swipe Typing</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {[true, false].map(enabled => (
+                                <button
+                                    key={String(enabled)}
+                                    onClick={() => setSettings(p => ({...p, swipeTyping: enabled}))}
+                                    className={`py-2 text-xs font-bold uppercase tracking-widest border transition-colors ${
+                                        settings.swipeTyping === enabled
+                                            ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300'
+                                            : 'bg-slate-900 border-cyan-900 text-cyan-700 hover:text-cyan-400'
+                                    }`}
+                                >
+                                    {enabled ? 'On' : 'Off'}
+                                </button>
+                            ))}
+                        </div>
+                        {settings.swipeTyping && settings.activationMode === 'dwell' && (
+                            <p className="text-[10px] text-cyan-700 uppercase tracking-wider">Swipes need pinch activation</p>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Hands</span>
+                        </div>
+                        <select
+                            value={settings.handMode}
+                            onChange={(e) => setSettings(p => ({...p, handMode: e.target.value as HandMode}))}
+                            className="w-full bg-slate-900 border border-cyan-800 text-cyan-300 text-sm p-2 outline-none focus:border-cyan-400"
+                        >
+                            <option value="single">One Hand</option>
+                            <option value="split">Two Hands: Split Keyboard</option>
+                            <option value="roles">Two Hands: Pointer + Assist</option>
+                        </select>
+                        {settings.handMode === 'roles' && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['left', 'right'] as HandSide[]).map(side => (
+                                    <button
+                                        key={side}
+                                        onClick={() => setSettings(p => ({...p, pointerHand: side}))}
+                                        className={`py-2 text-xs font-bold uppercase tracking-widest border transition-colors ${
+                                            settings.pointerHand === side
+                                                ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300'
+                                                : 'bg-slate-900 border-cyan-900 text-cyan-700 hover:text-cyan-400'
+                                        }`}
+                                    >
+                                        {side === 'left' ? 'Left' : 'Right'} Points
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {settings.handMode === 'roles' && (
+                            <p className="text-[10px] text-cyan-700 uppercase tracking-wider">Assist hand: pinch = click, fist = hold shift</p>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Pinch Enter</span>
+                            <span className="text-cyan-300">{(settings.pinchThreshold * 100).toFixed(0)}% palm</span>
                         </div>
                         <input 
                             type="range" 
-                            min="0.01" max="0.1" step="0.005"
+                            min="0.1" max="0.8" step="0.01"
                             value={settings.pinchThreshold}
-                            onChange={(e) => setSettings(p => ({...p, pinchThreshold: parseFloat(e.target.value)}))}
+                            onChange={(e) => {
+                                const enter = parseFloat(e.target.value);
+                                // Release must stay at or above enter, or the pinch could never end
+                                setSettings(p => ({...p, pinchThreshold: enter, pinchReleaseThreshold: Math.max(p.pinchReleaseThreshold, enter)}));
+                            }}
+                            className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>Pinch Release</span>
+                            <span className="text-cyan-300">{(settings.pinchReleaseThreshold * 100).toFixed(0)}% palm</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="0.1" max="1" step="0.01"
+                            value={settings.pinchReleaseThreshold}
+                            onChange={(e) => {
+                                const release = parseFloat(e.target.value);
+                                setSettings(p => ({...p, pinchReleaseThreshold: release, pinchThreshold: Math.min(p.pinchThreshold, release)}));
+                            }}
                             className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
                         />
                     </div>
 
                      <div className="space-y-2">
                         <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
-                            <span>Extension Bias</span>
-                            <span className="text-cyan-300">{(settings.extensionThreshold * 100).toFixed(1)}</span>
+                            <span>Finger Extension</span>
+                            <span className="text-cyan-300">{(settings.extensionThreshold * 100).toFixed(0)}% palm</span>
                         </div>
                         <input 
                             type="range" 
-                            min="-0.05" max="0.05" step="0.01"
+                            min="-0.2" max="0.5" step="0.01"
                             value={settings.extensionThreshold}
                             onChange={(e) => setSettings(p => ({...p, extensionThreshold: parseFloat(e.target.value)}))}
                             className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
                         />
                     </div>
 
+                    <div className="space-y-3">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>AI Actions</span>
+                            <button
+                                onClick={() => updateTemplates(DEFAULT_TEMPLATES)}
+                                className="text-[10px] text-cyan-700 hover:text-cyan-400 tracking-widest"
+                            >
+                                RESET
+                            </button>
+                        </div>
+                        {templates.map((template, i) => (
+                            <div key={template.id} className="space-y-1 border border-cyan-900/50 p-2">
+                                <div className="flex gap-2">
+                                    <input
+                                        value={template.label}
+                                        onChange={(e) => updateTemplates(templates.map((t, j) => j === i ? {...t, label: e.target.value} : t))}
+                                        className="flex-1 bg-slate-900 border border-cyan-800 text-cyan-300 text-xs p-1 uppercase outline-none focus:border-cyan-400"
+                                    />
+                                    <button
+                                        onClick={() => updateTemplates(templates.filter((_, j) => j !== i))}
+                                        disabled={templates.length === 1}
+                                        className="text-cyan-700 hover:text-red-400 disabled:opacity-30"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                                <textarea
+                                    value={template.instruction}
+                                    onChange={(e) => updateTemplates(templates.map((t, j) => j === i ? {...t, instruction: e.target.value} : t))}
+                                    rows={2}
+                                    className="w-full bg-slate-900 border border-cyan-800 text-cyan-300 text-xs p-1 outline-none focus:border-cyan-400 resize-none"
+                                />
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updateTemplates([...templates, { id: createTemplateId(templates), label: 'CUSTOM', instruction: 'Rewrite the text.' }])}
+                            className="w-full py-1 text-xs font-bold uppercase tracking-widest border border-cyan-900 text-cyan-700 hover:text-cyan-400 transition-colors"
+                        >
+                            + Add Action
+                        </button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs text-cyan-600 font-bold uppercase tracking-wider">
+                            <span>AI Requests / Min</span>
+                            <span className="text-cyan-300">{settings.aiRequestsPerMinute}</span>
+                        </div>
+                        <input 
+                            type="range" 
+                            min="1" max="60" step="1"
+                            value={settings.aiRequestsPerMinute}
+                            onChange={(e) => setSettings(p => ({...p, aiRequestsPerMinute: parseInt(e.target.value, 10)}))}
+                            className="w-full accent-cyan-400 h-1 bg-slate-800 rounded appearance-none cursor-pointer"
+                        />
+                    </div>
+
                     <div className="pt-4 border-t border-cyan-900/30">
                         <button 
                             onClick={() => { setShowSettings(false); setTutorialStep(1); }}
@@ -747,12 +1686,42 @@ function App() {
                         >
                             Reset Tutorial
                         </button>
+                        <button 
+                            onClick={() => { setShowSettings(false); startCalibration(false); }}
+                            className="w-full mt-2 py-2 bg-cyan-950 text-cyan-400 text-xs font-bold uppercase tracking-widest border border-cyan-800 hover:bg-cyan-900 transition-colors"
+                        >
+                            Run Calibration
+                        </button>
                     </div>
                 </div>
             </div>
         </div>
       )}
 
+      <input
+        ref={profileInputRef}
+        type="file"
+        accept="application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) loadProfilesFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <input
+        ref={sessionInputRef}
+        type="file"
+        accept="application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) loadSessionFile(file);
+          e.target.value = '';
+        }}
+      />
+
       {/* Loading State */}
       {appState === AppState.LOADING && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black text-white">
@@ -775,6 +1744,12 @@ function App() {
                   <h2 className="text-2xl font-bold tracking-widest mb-2">SYSTEM FAILURE</h2>
                   <p className="text-red-400 text-sm">CAMERA MODULE NOT DETECTED</p>
                   <p className="text-red-800 text-xs mt-2">Check console for details.</p>
+                  <button 
+                      onClick={() => sessionInputRef.current?.click()}
+                      className="mt-6 w-full py-2 bg-red-950/50 text-red-400 text-xs font-bold uppercase tracking-widest border border-red-900 hover:bg-red-900/50 transition-colors"
+                  >
+                      Load Recorded Session
+                  </button>
               </div>
           </div>
       )}
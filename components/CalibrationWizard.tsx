@@ -0,0 +1,93 @@
+import React from 'react';
+import { CheckCircle2, Hand, Grab, RotateCcw } from 'lucide-react';
+import { CALIBRATION_POSES, CalibrationPose, CalibrationResult, CalibrationStatus } from '../services/calibration';
+
+interface CalibrationWizardProps {
+  status: CalibrationStatus;
+  result: CalibrationResult | null;
+  error: string | null;
+  onRetry: () => void;
+  onCancel: () => void;
+  onContinue: () => void;
+}
+
+const POSE_PROMPTS: Record<CalibrationPose, { title: string; instruction: string }> = {
+  open: { title: 'Open Hand', instruction: 'Hold your hand up with all fingers spread.' },
+  pinch: { title: 'Pinch', instruction: 'Touch your thumb and index fingertips together.' },
+  fist: { title: 'Fist', instruction: 'Curl all fingers into a loose fist.' },
+};
+
+// Full-screen steps of the calibration run: one hold per pose, then the derived thresholds or the reason it failed
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ status, result, error, onRetry, onCancel, onContinue }) => {
+  const prompt = POSE_PROMPTS[status.pose];
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-md flex items-center justify-center pointer-events-auto">
+      <div className="glass-panel p-8 rounded-none border-2 border-cyan-500/50 w-full max-w-lg shadow-[0_0_100px_rgba(34,211,238,0.2)] relative text-center">
+        <div className="absolute top-0 left-0 w-8 h-8 border-l-4 border-t-4 border-cyan-400"></div>
+        <div className="absolute top-0 right-0 w-8 h-8 border-r-4 border-t-4 border-cyan-400"></div>
+        <div className="absolute bottom-0 left-0 w-8 h-8 border-l-4 border-b-4 border-cyan-400"></div>
+        <div className="absolute bottom-0 right-0 w-8 h-8 border-r-4 border-b-4 border-cyan-400"></div>
+
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-xs text-cyan-700 hover:text-white uppercase tracking-widest"
+        >
+          [ Skip Calibration ]
+        </button>
+
+        <div className="flex justify-center gap-2 mb-6 mt-4">
+          {CALIBRATION_POSES.map((pose, i) => (
+            <div key={pose} className={`w-2 h-2 rounded-full ${status.poseIndex >= i ? 'bg-cyan-400 shadow-[0_0_10px_cyan]' : 'bg-slate-800'}`}></div>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-amber-400 tracking-widest uppercase">Calibration Failed</h2>
+            <p className="text-slate-300">{error}</p>
+            <button
+              onClick={onRetry}
+              className="px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-black font-bold tracking-widest uppercase rounded transition-all flex items-center gap-2 mx-auto"
+            >
+              <RotateCcw size={20} /> Retry
+            </button>
+          </div>
+        ) : result ? (
+          <div className="space-y-6">
+            <CheckCircle2 size={64} className="mx-auto text-green-400" />
+            <h2 className="text-2xl font-bold text-green-400 tracking-widest uppercase">Calibrated</h2>
+            <div className="text-xs text-cyan-600 font-mono space-y-1">
+              <div>PINCH ENTER / EXIT: {(result.pinchThreshold * 100).toFixed(0)}% / {(result.pinchReleaseThreshold * 100).toFixed(0)}% OF PALM</div>
+              <div>FINGER EXTENSION: {(result.extensionThreshold * 100).toFixed(0)}% OF PALM</div>
+            </div>
+            <button
+              onClick={onContinue}
+              className="px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-black font-bold tracking-widest uppercase rounded shadow-[0_0_20px_rgba(34,211,238,0.5)] transition-all"
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {status.pose === 'fist' ? (
+              <Grab size={64} className="mx-auto text-cyan-400" />
+            ) : (
+              <Hand size={64} className="mx-auto text-cyan-400" />
+            )}
+            <h2 className="text-2xl font-bold text-cyan-400 tracking-widest uppercase">{prompt.title}</h2>
+            <p className="text-slate-300">{prompt.instruction}</p>
+            <div className="h-2 bg-slate-800 overflow-hidden">
+              <div className="h-full bg-cyan-400 transition-[width] duration-100" style={{ width: `${status.progress * 100}%` }}></div>
+            </div>
+            <div className="text-xs text-cyan-600 bg-cyan-950/30 p-2 border border-cyan-900/50 inline-block rounded">
+              {!status.handVisible ? 'STATUS: NO HAND IN VIEW...' : status.progress > 0 ? 'STATUS: RECORDING...' : 'STATUS: GET READY...'}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef } from 'react';
+import { Check, X } from 'lucide-react';
+import { Correction } from '../types';
+
+export type ReviewCommand =
+  | { type: 'accept' | 'reject'; editId: number }
+  | { type: 'accept-all' | 'reject-all' };
+
+const REVIEW_KEY_PREFIX = 'review-';
+
+// Hit-test ids of the review controls, resolved back to commands by parseReviewKey
+const reviewKeyId = (command: ReviewCommand) =>
+  'editId' in command ? `${REVIEW_KEY_PREFIX}${command.type}-${command.editId}` : `${REVIEW_KEY_PREFIX}${command.type}`;
+
+export const parseReviewKey = (keyId: string): ReviewCommand | null => {
+  if (!keyId.startsWith(REVIEW_KEY_PREFIX)) return null;
+  const name = keyId.slice(REVIEW_KEY_PREFIX.length);
+  if (name === 'accept-all' || name === 'reject-all') return { type: name };
+  const match = name.match(/^(accept|reject)-(\d+)$/);
+  return match ? { type: match[1] as 'accept' | 'reject', editId: Number(match[2]) } : null;
+};
+
+interface DiffReviewProps {
+  correction: Correction;
+  decisions: Record<number, boolean>; // true = accepted, false = rejected, missing = undecided
+  hoveredKeyIds: string[];
+  activeKeyIds: string[];
+  setRects: (rects: Record<string, DOMRect>) => void;
+}
+
+// AI action result as inline word changes, each with its own accept/reject target
+const DiffReview: React.FC<DiffReviewProps> = ({ correction, decisions, hoveredKeyIds, activeKeyIds, setRects }) => {
+  const reviewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const updateRects = () => {
+      if (!reviewRef.current) return;
+      const rects: Record<string, DOMRect> = {};
+      reviewRef.current.querySelectorAll('[data-key-id]').forEach(el => {
+        const id = el.getAttribute('data-key-id');
+        if (id) rects[id] = el.getBoundingClientRect();
+      });
+      setRects(rects);
+    };
+
+    updateRects();
+    window.addEventListener('resize', updateRects);
+    return () => {
+      window.removeEventListener('resize', updateRects);
+      setRects({});
+    };
+  }, [correction, decisions, setRects]);
+
+  const target = (command: ReviewCommand, content: React.ReactNode, tone: 'accept' | 'reject') => {
+    const id = reviewKeyId(command);
+    const isActive = activeKeyIds.includes(id);
+    const isHovered = hoveredKeyIds.includes(id);
+    const toneClass = tone === 'accept' ? 'border-green-500/60 text-green-400' : 'border-red-500/60 text-red-400';
+    return (
+      <span
+        data-key-id={id}
+        className={`inline-flex items-center justify-center gap-2 min-w-[2.5rem] h-10 px-2 border rounded-md text-sm font-bold tracking-widest align-middle transition-all duration-100 ${toneClass} ${
+          isActive ? 'bg-cyan-400 text-black scale-95' : isHovered ? 'bg-slate-800 scale-110' : 'bg-slate-900/60'
+        }`}
+      >
+        {content}
+      </span>
+    );
+  };
+
+  const { original, edits } = correction;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  edits.forEach(edit => {
+    parts.push(<span key={`text-${edit.id}`}>{original.slice(cursor, edit.start)}</span>);
+    const decision = decisions[edit.id];
+    parts.push(
+      <span key={`edit-${edit.id}`} className="inline-flex items-center gap-2 mx-1 px-2 py-1 border border-cyan-800/60 rounded-md align-middle">
+        {edit.original && (
+          <span className={decision === true ? 'line-through text-red-400/40' : decision === false ? 'text-cyan-50' : 'line-through text-red-400'}>
+            {edit.original}
+          </span>
+        )}
+        {edit.replacement && (
+          <span className={decision === false ? 'line-through text-green-400/40' : 'text-green-400'}>{edit.replacement}</span>
+        )}
+        {decision === undefined && (
+          <>
+            {target({ type: 'accept', editId: edit.id }, <Check size={16} />, 'accept')}
+            {target({ type: 'reject', editId: edit.id }, <X size={16} />, 'reject')}
+          </>
+        )}
+      </span>
+    );
+    cursor = edit.end;
+  });
+  parts.push(<span key="text-end">{original.slice(cursor)}</span>);
+
+  const pending = edits.filter(edit => decisions[edit.id] === undefined).length;
+
+  return (
+    <div ref={reviewRef} className="w-full">
+      <div className="h-40 overflow-y-auto text-3xl text-cyan-50 leading-relaxed font-light whitespace-pre-wrap break-words">
+        {parts}
+      </div>
+      <div className="mt-4 flex items-center gap-4">
+        {target({ type: 'accept-all' }, <><Check size={16} /> ACCEPT ALL</>, 'accept')}
+        {target({ type: 'reject-all' }, <><X size={16} /> REJECT ALL</>, 'reject')}
+        <span className="text-xs text-cyan-600 uppercase tracking-widest">{pending} change{pending === 1 ? '' : 's'} to review</span>
+      </div>
+    </div>
+  );
+};
+
+export default DiffReview;
@@ -0,0 +1,61 @@
+import React, { useSyncExternalStore } from 'react';
+import { FrameStore } from '../services/frameStore';
+import { HandCursor } from '../types';
+
+interface HandCursorsProps {
+  store: FrameStore<HandCursor[]>;
+  showDwell: boolean;
+}
+
+// Subscribes to the per-frame cursor store, so cursor motion re-renders only this layer
+const HandCursors: React.FC<HandCursorsProps> = ({ store, showDwell }) => {
+  const cursors = useSyncExternalStore(store.subscribe, store.get);
+
+  return (
+    <>
+      {cursors.map(cursor => (
+        <div
+            key={cursor.hand}
+            className="fixed pointer-events-none z-[100] transition-transform duration-100 ease-linear"
+            style={{
+                left: cursor.x,
+                top: cursor.y,
+                transform: `translate(-50%, -50%) scale(${cursor.isPinching ? 0.8 : 1})`
+            }}
+        >
+            {/* Dwell Progress Ring */}
+            {showDwell && cursor.dwellProgress > 0 && (
+                <svg className="absolute -inset-2 w-16 h-16 -rotate-90" viewBox="0 0 64 64">
+                    <circle cx="32" cy="32" r="29" fill="none" stroke="rgba(34,211,238,0.15)" strokeWidth="3" />
+                    <circle
+                        cx="32" cy="32" r="29" fill="none" stroke="#22d3ee" strokeWidth="3" strokeLinecap="round"
+                        strokeDasharray={2 * Math.PI * 29}
+                        strokeDashoffset={2 * Math.PI * 29 * (1 - cursor.dwellProgress)}
+                        className="drop-shadow-[0_0_6px_cyan]"
+                    />
+                </svg>
+            )}
+            {/* Outer Ring */}
+            <div className={`w-12 h-12 border border-cyan-400 rounded-full flex items-center justify-center transition-all duration-200 ${cursor.isPinching ? 'border-2 bg-cyan-500/20 shadow-[0_0_20px_cyan]' : 'opacity-80'}`}>
+                {/* Inner Dots */}
+                <div className="w-1 h-1 bg-cyan-300 absolute top-0 left-1/2 -translate-x-1/2 -translate-y-1/2"></div>
+                <div className="w-1 h-1 bg-cyan-300 absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2"></div>
+                <div className="w-1 h-1 bg-cyan-300 absolute left-0 top-1/2 -translate-x-1/2 -translate-y-1/2"></div>
+                <div className="w-1 h-1 bg-cyan-300 absolute right-0 top-1/2 translate-x-1/2 -translate-y-1/2"></div>
+
+                {/* Center Point */}
+                <div className={`w-1 h-1 bg-white rounded-full ${cursor.isPinching ? 'w-2 h-2' : ''}`}></div>
+            </div>
+            {/* Trailing Line (Simulated) */}
+            <div className="absolute top-1/2 left-1/2 w-20 h-px bg-gradient-to-l from-cyan-500/0 to-cyan-500/0 transform rotate-45 -z-10"></div>
+            {/* Hand Tag when both hands point */}
+            {cursors.length > 1 && (
+                <div className="absolute -top-4 left-1/2 -translate-x-1/2 text-[10px] text-cyan-300 tracking-widest">{cursor.hand === 'left' ? 'L' : 'R'}</div>
+            )}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default HandCursors;
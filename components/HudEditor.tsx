@@ -0,0 +1,114 @@
+import React, { forwardRef, useEffect, useRef } from 'react';
+import { selectionRange } from '../services/textBuffer';
+import { TextBuffer } from '../types';
+
+interface HudEditorProps {
+  buffer: TextBuffer;
+  placeholder?: string;
+  ghostText?: string; // Pending AI completion shown dimmed after the caret
+}
+
+// Maps a screen point to the nearest caret index inside the rendered editor, or null if outside it
+export const caretIndexFromPoint = (container: HTMLElement, x: number, y: number): number | null => {
+  const bounds = container.getBoundingClientRect();
+  if (x < bounds.left || x > bounds.right || y < bounds.top || y > bounds.bottom) return null;
+
+  const chars = Array.from(container.querySelectorAll<HTMLElement>('[data-char-index]'));
+  if (chars.length === 0) return 0;
+
+  const measured = chars.map(el => ({ index: Number(el.dataset.charIndex), rect: el.getBoundingClientRect() }));
+
+  // Pick the visual line under the point (or the closest one), then the closest character on it
+  const lineDistance = (rect: DOMRect) => (y < rect.top ? rect.top - y : y > rect.bottom ? y - rect.bottom : 0);
+  const closestLine = Math.min(...measured.map(c => lineDistance(c.rect)));
+  const onLine = measured.filter(c => lineDistance(c.rect) === closestLine);
+
+  let best = onLine[0];
+  let bestDistance = Infinity;
+  for (const c of onLine) {
+    const center = c.rect.left + c.rect.width / 2;
+    const distance = Math.abs(x - center);
+    if (distance < bestDistance) {
+      best = c;
+      bestDistance = distance;
+    }
+  }
+
+  return x > best.rect.left + best.rect.width / 2 ? best.index + 1 : best.index;
+};
+
+// End offset (within the ghost text) of the ghost word under a screen point, or null if none is hit
+export const ghostOffsetFromPoint = (container: HTMLElement, x: number, y: number): number | null => {
+  for (const el of Array.from(container.querySelectorAll<HTMLElement>('[data-ghost-end]'))) {
+    const rect = el.getBoundingClientRect();
+    if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) return Number(el.dataset.ghostEnd);
+  }
+  return null;
+};
+
+// Words carry their end offset so a pinch can accept the suggestion up to that word
+const renderGhost = (ghostText: string) => {
+  let offset = 0;
+  return (
+    <span className="text-cyan-50/30">
+      {ghostText.split(/(\s+)/).map((part, i) => {
+        offset += part.length;
+        return /^\s*$/.test(part)
+          ? <React.Fragment key={i}>{part}</React.Fragment>
+          : <span key={i} data-ghost-end={offset}>{part}</span>;
+      })}
+    </span>
+  );
+};
+
+const HudEditor = forwardRef<HTMLDivElement, HudEditorProps>(({ buffer, placeholder, ghostText }, ref) => {
+  const caretRef = useRef<HTMLSpanElement>(null);
+  const [selStart, selEnd] = selectionRange(buffer);
+
+  // Keep the caret visible as the text grows past the panel height
+  useEffect(() => {
+    caretRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [buffer, ghostText]);
+
+  const caret = (
+    <>
+      <span
+        ref={caretRef}
+        className="inline-block w-[2px] -mr-[2px] h-[1em] align-[-0.1em] bg-cyan-300 shadow-[0_0_8px_rgba(34,211,238,0.8)] animate-pulse"
+      ></span>
+      {ghostText && selStart === selEnd && renderGhost(ghostText)}
+    </>
+  );
+
+  return (
+    <div
+      ref={ref}
+      className="w-full h-40 overflow-y-auto text-5xl text-cyan-50 leading-tight font-light tracking-wide whitespace-pre-wrap break-words"
+    >
+      {buffer.text.length === 0 && (
+        <>
+          {caret}
+          {!ghostText && <span className="text-cyan-900/50">{placeholder}</span>}
+        </>
+      )}
+      {buffer.text.split('').map((char, i) => (
+        <React.Fragment key={i}>
+          {i === buffer.focus && caret}
+          {/* Dictated characters are underlined so the scope of FIX DICTATED is visible */}
+          <span
+            data-char-index={i}
+            className={[
+              i >= selStart && i < selEnd && 'bg-cyan-500/30 text-white',
+              buffer.segments.some(s => i >= s.start && i < s.end) && 'underline decoration-dotted decoration-purple-400/70',
+            ].filter(Boolean).join(' ') || undefined}
+          >
+            {char}
+          </span>
+        </React.Fragment>
+      ))}
+      {buffer.text.length > 0 && buffer.focus === buffer.text.length && caret}
+    </div>
+  );
+});
+
+export default HudEditor;
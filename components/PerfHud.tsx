@@ -0,0 +1,30 @@
+import React, { useSyncExternalStore } from 'react';
+import { FrameStore } from '../services/frameStore';
+import { PerfStats } from '../services/perfMonitor';
+import { HandTrackerId } from '../types';
+
+const TRACKER_LABELS: Record<HandTrackerId, string> = {
+  'tasks-vision': 'TASKS-VISION (WORKER)',
+  legacy: 'LEGACY (MAIN THREAD)',
+  synthetic: 'SYNTHETIC',
+};
+
+interface PerfHudProps {
+  stats: FrameStore<PerfStats>;
+}
+
+// Tracking rate and per-frame cost, refreshed a couple of times per second
+const PerfHud: React.FC<PerfHudProps> = ({ stats }) => {
+  const { fps, frameMs, inferenceMs, tracker } = useSyncExternalStore(stats.subscribe, stats.get);
+
+  return (
+    <div className="fixed top-14 left-4 z-[60] pointer-events-none bg-slate-900/80 border border-cyan-900/50 px-3 py-2 text-[10px] text-cyan-400 tracking-widest font-mono space-y-0.5">
+      <div>FPS: <span className={fps < 20 ? 'text-amber-400' : 'text-cyan-200'}>{fps.toFixed(0)}</span></div>
+      <div>MAIN: <span className="text-cyan-200">{frameMs.toFixed(1)}ms</span></div>
+      <div>INFERENCE: <span className="text-cyan-200">{inferenceMs === null ? '--' : `${inferenceMs.toFixed(1)}ms`}</span></div>
+      <div>TRACKER: <span className="text-cyan-200">{tracker ? TRACKER_LABELS[tracker] : '--'}</span></div>
+    </div>
+  );
+};
+
+export default PerfHud;
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef } from 'react';
+
+const SUGGESTION_KEY_PREFIX = 'suggestion-';
+
+export const suggestionKeyId = (index: number) => `${SUGGESTION_KEY_PREFIX}${index}`;
+
+// Index of the suggestion a hit-tested key id points at, or null for regular keys
+export const suggestionIndex = (keyId: string): number | null =>
+  keyId.startsWith(SUGGESTION_KEY_PREFIX) ? Number(keyId.slice(SUGGESTION_KEY_PREFIX.length)) : null;
+
+interface SuggestionBarProps {
+  suggestions: string[];
+  selectedIndex?: number;
+  hoveredKeyIds: string[];
+  activeKeyIds: string[];
+  setRects: (rects: Record<string, DOMRect>) => void;
+}
+
+// Word candidates above the keyboard, hit-tested like keys through their data-key-id
+const SuggestionBar: React.FC<SuggestionBarProps> = ({ suggestions, selectedIndex, hoveredKeyIds, activeKeyIds, setRects }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const updateRects = () => {
+      if (!barRef.current) return;
+      const rects: Record<string, DOMRect> = {};
+      barRef.current.querySelectorAll('[data-key-id]').forEach(el => {
+        const id = el.getAttribute('data-key-id');
+        if (id) rects[id] = el.getBoundingClientRect();
+      });
+      setRects(rects);
+    };
+
+    updateRects();
+    window.addEventListener('resize', updateRects);
+    return () => window.removeEventListener('resize', updateRects);
+  }, [suggestions, setRects]);
+
+  // Fixed height so showing or hiding suggestions never shifts the keyboard under the cursor
+  return (
+    <div ref={barRef} className="w-full max-w-3xl mx-auto h-12 flex justify-center gap-3 select-none pointer-events-none">
+      {suggestions.map((word, i) => {
+        const id = suggestionKeyId(i);
+        const isActive = activeKeyIds.includes(id);
+        const isHovered = hoveredKeyIds.includes(id);
+        let stateClass = 'bg-slate-900/40 border-cyan-900/40 text-cyan-500/80';
+        if (isActive) {
+          stateClass = 'bg-cyan-400 border-cyan-300 text-black shadow-[0_0_25px_rgba(34,211,238,0.8)] scale-95 font-bold';
+        } else if (isHovered) {
+          stateClass = 'bg-cyan-950/60 border-cyan-400 text-cyan-200 shadow-[0_0_15px_rgba(34,211,238,0.4)] scale-110';
+        } else if (i === selectedIndex) {
+          stateClass = 'bg-cyan-950/40 border-cyan-600 text-cyan-200';
+        }
+        return (
+          <div
+            key={id}
+            data-key-id={id}
+            className={`min-w-[6rem] px-4 flex items-center justify-center border rounded-md text-lg tracking-wide backdrop-blur-sm transition-all duration-100 ${stateClass}`}
+          >
+            {word}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SuggestionBar;
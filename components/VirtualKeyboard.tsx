@@ -1,50 +1,27 @@
 import React, { useRef, useEffect, useMemo } from 'react';
-import { Key } from '../types';
+import { applyShift } from '../services/keyDispatcher';
+import { Key, KeyboardLayer, KeyboardLayout, ShiftState } from '../types';
 
 interface VirtualKeyboardProps {
   onKeyPress: (key: string) => void;
-  hoveredKeyId: string | null;
-  activeKeyId: string | null;
+  hoveredKeyIds: string[]; // One per tracked hand
+  activeKeyIds: string[];
+  disabledKeyIds: string[]; // Shown greyed out, e.g. AI keys while offline
+  layout: KeyboardLayout;
+  layer: KeyboardLayer;
+  shiftState: ShiftState;
   setKeyRects: (rects: Record<string, DOMRect>) => void;
 }
 
-const ROWS: Key[][] = [
-  [
-    { id: '1', label: '1', value: '1' }, { id: '2', label: '2', value: '2' }, { id: '3', label: '3', value: '3' },
-    { id: '4', label: '4', value: '4' }, { id: '5', label: '5', value: '5' }, { id: '6', label: '6', value: '6' },
-    { id: '7', label: '7', value: '7' }, { id: '8', label: '8', value: '8' }, { id: '9', label: '9', value: '9' },
-    { id: '0', label: '0', value: '0' }, { id: 'backspace', label: '⌫', value: 'BACKSPACE', type: 'action', width: 1.5 },
-  ],
-  [
-    { id: 'q', label: 'Q', value: 'q' }, { id: 'w', label: 'W', value: 'w' }, { id: 'e', label: 'E', value: 'e' },
-    { id: 'r', label: 'R', value: 'r' }, { id: 't', label: 'T', value: 't' }, { id: 'y', label: 'Y', value: 'y' },
-    { id: 'u', label: 'U', value: 'u' }, { id: 'i', label: 'I', value: 'i' }, { id: 'o', label: 'O', value: 'o' },
-    { id: 'p', label: 'P', value: 'p' },
-  ],
-  [
-    { id: 'a', label: 'A', value: 'a' }, { id: 's', label: 'S', value: 's' }, { id: 'd', label: 'D', value: 'd' },
-    { id: 'f', label: 'F', value: 'f' }, { id: 'g', label: 'G', value: 'g' }, { id: 'h', label: 'H', value: 'h' },
-    { id: 'j', label: 'J', value: 'j' }, { id: 'k', label: 'K', value: 'k' }, { id: 'l', label: 'L', value: 'l' },
-    { id: 'enter', label: 'ENTER', value: 'ENTER', type: 'action', width: 1.5 },
-  ],
-  [
-    { id: 'shift', label: '⇧', value: 'SHIFT', type: 'action' },
-    { id: 'z', label: 'Z', value: 'z' }, { id: 'x', label: 'X', value: 'x' }, { id: 'c', label: 'C', value: 'c' },
-    { id: 'v', label: 'V', value: 'v' }, { id: 'b', label: 'B', value: 'b' }, { id: 'n', label: 'N', value: 'n' },
-    { id: 'm', label: 'M', value: 'm' },
-    { id: ',', label: ',', value: ',' }, { id: '.', label: '.', value: '.' },
-    { id: 'clear', label: 'CLR', value: 'CLEAR', type: 'action' },
-  ],
-  [
-    { id: 'space', label: 'SPACE', value: ' ', width: 6 },
-    { id: 'ai-fix', label: '✨ AI FIX', value: 'AI_FIX', type: 'action', width: 2.5 },
-  ]
-];
+// Character keys follow the shift state, action keys show their label as-is
+const displayLabel = (key: Key, shiftState: ShiftState) =>
+  key.type === 'action' ? key.label : applyShift(key.label, shiftState);
 
-const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ hoveredKeyId, activeKeyId, setKeyRects }) => {
+const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ hoveredKeyIds, activeKeyIds, disabledKeyIds, layout, layer, shiftState, setKeyRects }) => {
   const keyboardRef = useRef<HTMLDivElement>(null);
+  const rows = layout.layers[layer] ?? layout.layers.base;
 
-  // Update rects when window resizes or component mounts
+  // Update rects when window resizes, component mounts or the layout/layer swaps the rendered keys
   useEffect(() => {
     const updateRects = () => {
       if (!keyboardRef.current) return;
@@ -70,7 +47,7 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ hoveredKeyId, activeK
       window.removeEventListener('resize', updateRects);
       clearTimeout(timeout);
     };
-  }, [setKeyRects]);
+  }, [setKeyRects, rows]);
 
   return (
     <div 
@@ -78,21 +55,32 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ hoveredKeyId, activeK
       className="w-full max-w-5xl mx-auto p-4 select-none pointer-events-none" 
     >
       <div className="flex flex-col gap-3">
-        {ROWS.map((row, rowIndex) => (
+        {rows.map((row, rowIndex) => (
           <div key={rowIndex} className="flex justify-center gap-2">
             {row.map((key) => {
-              const isHovered = hoveredKeyId === key.id;
-              const isActive = activeKeyId === key.id;
+              const isHovered = hoveredKeyIds.includes(key.id);
+              const isActive = activeKeyIds.includes(key.id);
+              const isShiftKey = key.id === 'shift';
+              const isDisabled = disabledKeyIds.includes(key.id);
               
               // Futuristic Holographic Styling
               let bgClass = "bg-slate-900/40 border-cyan-900/40 text-cyan-500/80 shadow-[0_0_10px_rgba(8,145,178,0.05)]"; // Default
               
-              if (isActive) {
+              if (isDisabled) {
+                // Unavailable (no network for AI actions)
+                bgClass = "bg-slate-900/20 border-slate-800/60 text-slate-600 line-through";
+              } else if (isActive) {
                 // Active / Pressed State (High Energy)
                 bgClass = "bg-cyan-400 border-cyan-300 text-black shadow-[0_0_25px_rgba(34,211,238,0.8)] scale-95 z-10 font-bold";
               } else if (isHovered) {
                 // Hover State (Pre-activation)
                 bgClass = "bg-cyan-950/60 border-cyan-400 text-cyan-200 shadow-[0_0_15px_rgba(34,211,238,0.4)] scale-110 z-10";
+              } else if (isShiftKey && shiftState === 'locked') {
+                // Caps Lock engaged
+                bgClass = "bg-amber-400/80 border-amber-300 text-black shadow-[0_0_20px_rgba(251,191,36,0.6)] font-bold";
+              } else if (isShiftKey && shiftState === 'once') {
+                // One-shot Shift armed
+                bgClass = "bg-amber-950/40 border-amber-400 text-amber-300 shadow-[0_0_15px_rgba(251,191,36,0.3)]";
               }
 
               return (
@@ -113,7 +101,10 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ hoveredKeyId, activeK
                     maxWidth: key.width ? 'none' : '65px',
                   }}
                 >
-                  {key.label}
+                  {displayLabel(key, shiftState)}
+                  {isShiftKey && shiftState === 'locked' && (
+                    <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-3 h-0.5 bg-black rounded"></div>
+                  )}
                   {/* Decorative corner accents for tech look */}
                   {!isActive && (
                     <>
@@ -0,0 +1,21 @@
+import { Key, KeyboardLayout, PromptTemplate } from '../types';
+import { BACKSPACE_KEY, DICTATION_KEY, FIX_DICTATION_KEY, LETTERS_KEY } from './common';
+
+const ACTIONS_PER_ROW = 3;
+
+export const aiKeyId = (templateId: string) => `ai-${templateId}`;
+
+// Adds the AI layer built from the user's prompt templates; registered layouts stay template-agnostic
+export const withAIActions = (layout: KeyboardLayout, templates: PromptTemplate[]): KeyboardLayout => {
+  const keys: Key[] = templates.map(template => ({
+    id: aiKeyId(template.id),
+    label: `✨ ${template.label}`,
+    value: template.id,
+    type: 'ai',
+    width: 3,
+  }));
+  const rows: Key[][] = [];
+  for (let i = 0; i < keys.length; i += ACTIONS_PER_ROW) rows.push(keys.slice(i, i + ACTIONS_PER_ROW));
+  rows.push([{ ...LETTERS_KEY, width: 2 }, DICTATION_KEY, FIX_DICTATION_KEY, { ...BACKSPACE_KEY, width: 2 }]);
+  return { ...layout, layers: { ...layout.layers, ai: rows } };
+};
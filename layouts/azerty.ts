@@ -0,0 +1,17 @@
+import { KeyboardLayout } from '../types';
+import { BASE_BOTTOM_ROW, charKeys, CLEAR_KEY, ENTER_KEY, NUMBER_ROW, SHIFT_KEY, SYMBOL_ROWS } from './common';
+
+export const AZERTY: KeyboardLayout = {
+  id: 'azerty',
+  name: 'AZERTY (French)',
+  layers: {
+    base: [
+      NUMBER_ROW,
+      charKeys('azertyuiopé'),
+      [...charKeys('qsdfghjklm'), ENTER_KEY],
+      [SHIFT_KEY, ...charKeys('wxcvbnàç,.'), CLEAR_KEY],
+      BASE_BOTTOM_ROW,
+    ],
+    symbols: SYMBOL_ROWS,
+  },
+};
@@ -0,0 +1,73 @@
+import { Key } from '../types';
+
+// Character keys from a string, ids are the characters themselves
+export const charKeys = (chars: string): Key[] =>
+  [...chars].map(char => ({ id: char, label: char.toUpperCase(), value: char }));
+
+export const BACKSPACE_KEY: Key = { id: 'backspace', label: '⌫', value: 'BACKSPACE', type: 'action', width: 1.5 };
+export const ENTER_KEY: Key = { id: 'enter', label: 'ENTER', value: 'ENTER', type: 'action', width: 1.5 };
+export const SHIFT_KEY: Key = { id: 'shift', label: '⇧', value: 'SHIFT', type: 'action' };
+export const CLEAR_KEY: Key = { id: 'clear', label: 'CLR', value: 'CLEAR', type: 'action' };
+export const SPACE_KEY: Key = { id: 'space', label: 'SPACE', value: ' ', width: 4 };
+// Opens the AI layer, one key per prompt template
+export const AI_KEY: Key = { id: 'ai', label: '✨ AI', value: 'AI_ACTIONS', type: 'action', width: 2.5 };
+export const LETTERS_KEY: Key = { id: 'letters', label: 'ABC', value: 'LETTERS', type: 'action', width: 1.5 };
+export const DICTATION_KEY: Key = { id: 'dictation', label: '🎙 DICTATE', value: 'DICTATION', type: 'action', width: 2.5 };
+// Runs the fix template over dictated segments only
+export const FIX_DICTATION_KEY: Key = { id: 'fix-dictation', label: '✨ FIX DICTATED', value: 'FIX_DICTATION', type: 'action', width: 2.5 };
+
+// Caret navigation, Shift + arrow extends the selection
+export const NAVIGATION_KEYS = {
+  wordLeft: { id: 'word-left', label: '⇤', value: 'WORD_LEFT', type: 'action' } as Key,
+  left: { id: 'cursor-left', label: '←', value: 'CURSOR_LEFT', type: 'action' } as Key,
+  right: { id: 'cursor-right', label: '→', value: 'CURSOR_RIGHT', type: 'action' } as Key,
+  wordRight: { id: 'word-right', label: '⇥', value: 'WORD_RIGHT', type: 'action' } as Key,
+};
+
+export const UNDO_KEY: Key = { id: 'undo', label: '↶', value: 'UNDO', type: 'action' };
+export const REDO_KEY: Key = { id: 'redo', label: '↷', value: 'REDO', type: 'action' };
+
+export const NUMBER_ROW: Key[] = [UNDO_KEY, REDO_KEY, ...charKeys('1234567890'), BACKSPACE_KEY];
+
+export const BASE_BOTTOM_ROW: Key[] = [
+  { id: 'symbols', label: '?123', value: 'SYMBOLS', type: 'action', width: 1.5 },
+  NAVIGATION_KEYS.wordLeft,
+  NAVIGATION_KEYS.left,
+  SPACE_KEY,
+  NAVIGATION_KEYS.right,
+  NAVIGATION_KEYS.wordRight,
+  AI_KEY,
+];
+
+// Punctuation layer shared by all text layouts
+// Ids avoid quote/backslash characters so they stay valid in attribute selectors
+export const SYMBOL_ROWS: Key[][] = [
+  NUMBER_ROW,
+  [
+    { id: 'exclaim', label: '!', value: '!' }, { id: 'at', label: '@', value: '@' }, { id: 'hash', label: '#', value: '#' },
+    { id: 'dollar', label: '$', value: '$' }, { id: 'percent', label: '%', value: '%' }, { id: 'amp', label: '&', value: '&' },
+    { id: 'asterisk', label: '*', value: '*' }, { id: 'lparen', label: '(', value: '(' }, { id: 'rparen', label: ')', value: ')' },
+    { id: 'minus', label: '-', value: '-' },
+  ],
+  [
+    { id: 'underscore', label: '_', value: '_' }, { id: 'equals', label: '=', value: '=' }, { id: 'plus', label: '+', value: '+' },
+    { id: 'slash', label: '/', value: '/' }, { id: 'colon', label: ':', value: ':' }, { id: 'semicolon', label: ';', value: ';' },
+    { id: 'apostrophe', label: "'", value: "'" }, { id: 'quote', label: '"', value: '"' }, { id: 'question', label: '?', value: '?' },
+    ENTER_KEY,
+  ],
+  [
+    { id: 'lbracket', label: '[', value: '[' }, { id: 'rbracket', label: ']', value: ']' }, { id: 'lbrace', label: '{', value: '{' },
+    { id: 'rbrace', label: '}', value: '}' }, { id: 'less', label: '<', value: '<' }, { id: 'greater', label: '>', value: '>' },
+    ...charKeys(',.'),
+    CLEAR_KEY,
+  ],
+  [
+    LETTERS_KEY,
+    NAVIGATION_KEYS.wordLeft,
+    NAVIGATION_KEYS.left,
+    SPACE_KEY,
+    NAVIGATION_KEYS.right,
+    NAVIGATION_KEYS.wordRight,
+    AI_KEY,
+  ],
+];
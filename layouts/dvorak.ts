@@ -0,0 +1,17 @@
+import { KeyboardLayout } from '../types';
+import { BASE_BOTTOM_ROW, charKeys, CLEAR_KEY, ENTER_KEY, NUMBER_ROW, SHIFT_KEY, SYMBOL_ROWS } from './common';
+
+export const DVORAK: KeyboardLayout = {
+  id: 'dvorak',
+  name: 'Dvorak',
+  layers: {
+    base: [
+      NUMBER_ROW,
+      [{ id: 'apostrophe', label: "'", value: "'" }, ...charKeys(',.pyfgcrl')],
+      [...charKeys('aoeuidhtns'), ENTER_KEY],
+      [SHIFT_KEY, { id: 'semicolon', label: ';', value: ';' }, ...charKeys('qjkxbmwvz'), CLEAR_KEY],
+      BASE_BOTTOM_ROW,
+    ],
+    symbols: SYMBOL_ROWS,
+  },
+};
@@ -0,0 +1,30 @@
+import { KeyboardLayout } from '../types';
+import { AZERTY } from './azerty';
+import { DVORAK } from './dvorak';
+import { NUMPAD } from './numpad';
+import { QWERTY } from './qwerty';
+import { QWERTZ } from './qwertz';
+import { validateLayout } from './validateLayout';
+
+export { validateLayout, KEY_ACTIONS } from './validateLayout';
+export { withAIActions } from './aiActions';
+export { DICTATION_KEY, FIX_DICTATION_KEY } from './common';
+
+export const DEFAULT_LAYOUT_ID = QWERTY.id;
+
+const registry = new Map<string, KeyboardLayout>();
+
+export const registerLayout = (layout: KeyboardLayout) => {
+  const errors = validateLayout(layout);
+  if (errors.length > 0) {
+    throw new Error(`Invalid keyboard layout "${layout.id}": ${errors.join('; ')}`);
+  }
+  registry.set(layout.id, layout);
+};
+
+[QWERTY, AZERTY, QWERTZ, DVORAK, NUMPAD].forEach(registerLayout);
+
+export const listLayouts = (): KeyboardLayout[] => [...registry.values()];
+
+// Unknown ids fall back to QWERTY so stale settings never leave the user without a keyboard
+export const getLayout = (id: string): KeyboardLayout => registry.get(id) ?? registry.get(DEFAULT_LAYOUT_ID)!;
@@ -0,0 +1,22 @@
+import { Key, KeyboardLayout } from '../types';
+import { BACKSPACE_KEY, CLEAR_KEY, ENTER_KEY, NAVIGATION_KEYS, REDO_KEY, UNDO_KEY } from './common';
+
+const padKeys = (chars: string): Key[] =>
+  [...chars].map(char => ({ id: char, label: char, value: char, width: 2 }));
+
+export const NUMPAD: KeyboardLayout = {
+  id: 'numpad',
+  name: 'Numeric Keypad',
+  layers: {
+    base: [
+      [...padKeys('789'), { ...BACKSPACE_KEY, width: 2 }],
+      [...padKeys('456'), { ...CLEAR_KEY, width: 2 }],
+      [...padKeys('123'), { ...ENTER_KEY, width: 2 }],
+      [{ id: '0', label: '0', value: '0', width: 4 }, ...padKeys('.,'), { id: 'minus', label: '-', value: '-', width: 2 }],
+      [
+        { ...UNDO_KEY, width: 2 }, { ...NAVIGATION_KEYS.left, width: 2 },
+        { ...NAVIGATION_KEYS.right, width: 2 }, { ...REDO_KEY, width: 2 },
+      ],
+    ],
+  },
+};
@@ -0,0 +1,17 @@
+import { KeyboardLayout } from '../types';
+import { BASE_BOTTOM_ROW, charKeys, CLEAR_KEY, ENTER_KEY, NUMBER_ROW, SHIFT_KEY, SYMBOL_ROWS } from './common';
+
+export const QWERTY: KeyboardLayout = {
+  id: 'qwerty',
+  name: 'QWERTY (US)',
+  layers: {
+    base: [
+      NUMBER_ROW,
+      charKeys('qwertyuiop'),
+      [...charKeys('asdfghjkl'), ENTER_KEY],
+      [SHIFT_KEY, ...charKeys('zxcvbnm,.'), CLEAR_KEY],
+      BASE_BOTTOM_ROW,
+    ],
+    symbols: SYMBOL_ROWS,
+  },
+};
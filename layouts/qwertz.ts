@@ -0,0 +1,17 @@
+import { KeyboardLayout } from '../types';
+import { BASE_BOTTOM_ROW, charKeys, CLEAR_KEY, ENTER_KEY, NUMBER_ROW, SHIFT_KEY, SYMBOL_ROWS } from './common';
+
+export const QWERTZ: KeyboardLayout = {
+  id: 'qwertz',
+  name: 'QWERTZ (German)',
+  layers: {
+    base: [
+      NUMBER_ROW,
+      charKeys('qwertzuiopü'),
+      [...charKeys('asdfghjklöä'), ENTER_KEY],
+      [SHIFT_KEY, ...charKeys('yxcvbnmß,.'), CLEAR_KEY],
+      BASE_BOTTOM_ROW,
+    ],
+    symbols: SYMBOL_ROWS,
+  },
+};
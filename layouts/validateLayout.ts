@@ -0,0 +1,76 @@
+import { KeyAction } from '../types';
+
+export const KEY_ACTIONS: KeyAction[] = [
+  'BACKSPACE', 'ENTER', 'SHIFT', 'CLEAR', 'AI_ACTIONS', 'SYMBOLS', 'LETTERS',
+  'CURSOR_LEFT', 'CURSOR_RIGHT', 'WORD_LEFT', 'WORD_RIGHT', 'UNDO', 'REDO',
+  'DICTATION', 'FIX_DICTATION',
+];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const validateRows = (rows: unknown, layerName: string, errors: string[]) => {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    errors.push(`layer "${layerName}" must be a non-empty array of rows`);
+    return;
+  }
+
+  // Ids must be unique within a layer, they are how hit-testing and dispatch find keys
+  const seenIds = new Set<string>();
+  rows.forEach((row, rowIndex) => {
+    if (!Array.isArray(row) || row.length === 0) {
+      errors.push(`${layerName}[${rowIndex}] must be a non-empty array of keys`);
+      return;
+    }
+    row.forEach((key: unknown, keyIndex) => {
+      const where = `${layerName}[${rowIndex}][${keyIndex}]`;
+      if (!isRecord(key)) {
+        errors.push(`${where} is not a key`);
+        return;
+      }
+      if (!isNonEmptyString(key.id)) {
+        errors.push(`${where} is missing an id`);
+      } else if (/["\\]/.test(key.id)) {
+        errors.push(`${where} id "${key.id}" contains a quote or backslash`);
+      } else if (seenIds.has(key.id)) {
+        errors.push(`${where} duplicates key id "${key.id}"`);
+      } else {
+        seenIds.add(key.id);
+      }
+      if (!isNonEmptyString(key.label)) errors.push(`${where} is missing a label`);
+      if (!isNonEmptyString(key.value)) errors.push(`${where} is missing a value`);
+      if (key.type !== undefined && key.type !== 'char' && key.type !== 'action') {
+        errors.push(`${where} has unknown type "${key.type}"`);
+      }
+      if (key.type === 'action' && !KEY_ACTIONS.some(action => action === key.value)) {
+        errors.push(`${where} has unknown action "${key.value}"`);
+      }
+      if (key.width !== undefined && !(typeof key.width === 'number' && key.width > 0)) {
+        errors.push(`${where} has an invalid width`);
+      }
+    });
+  });
+};
+
+// Returns a list of problems, empty when the layout is valid. Accepts parsed JSON as well as TS definitions.
+export const validateLayout = (layout: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isRecord(layout)) return ['layout must be an object'];
+  if (!isNonEmptyString(layout.id)) errors.push('layout is missing an id');
+  if (!isNonEmptyString(layout.name)) errors.push('layout is missing a name');
+  const { layers } = layout;
+  if (!isRecord(layers)) {
+    errors.push('layout is missing layers');
+    return errors;
+  }
+
+  Object.keys(layers).forEach(layerName => {
+    if (layerName !== 'base' && layerName !== 'symbols') errors.push(`unknown layer "${layerName}"`);
+  });
+  validateRows(layers.base, 'base', errors);
+  if (layers.symbols !== undefined) validateRows(layers.symbols, 'symbols', errors);
+
+  return errors;
+};
@@ -0,0 +1,27 @@
+// Downloads the hand landmarker model into public/models so it is served, bundled and precached
+// like any other asset. The MediaPipe runtimes themselves come from node_modules (see vite.config.ts).
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODELS = {
+  'hand_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const dir = resolve(root, 'public/models');
+mkdirSync(dir, { recursive: true });
+
+for (const [name, url] of Object.entries(MODELS)) {
+  const file = resolve(dir, name);
+  if (existsSync(file)) continue;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    writeFileSync(file, Buffer.from(await res.arrayBuffer()));
+    console.log(`Downloaded ${name}`);
+  } catch (err) {
+    // Builds on offline machines still work: without the model the app tracks with the legacy solution
+    console.warn(`Could not download ${name} (${err.message}); copy it into public/models by hand for worker tracking`);
+  }
+}
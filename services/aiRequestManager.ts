@@ -0,0 +1,127 @@
+import { delay, isAbortError } from './providers/abort';
+
+// Identical requests within this window are collapsed into the last one
+const DEFAULT_DEBOUNCE_MS = 250;
+const DEFAULT_BUDGET_PER_MINUTE = 20;
+const BUDGET_WINDOW_MS = 60_000;
+const MAX_CACHE_ENTRIES = 50;
+
+export type AIRequestEvent =
+  | { type: 'started' | 'finished' | 'failed' | 'cached'; channel: string }
+  | { type: 'cancelled'; channel: string; reason: 'superseded' | 'aborted' }
+  | { type: 'throttled'; channel: string; retryInMs: number };
+
+// What a caller may do after asking for a slot: go to the network, use the cache, or give up
+export type AIRequestTicket<T> =
+  | { status: 'go'; signal: AbortSignal; finish: (value: T) => void; fail: (error: unknown) => void }
+  | { status: 'cached'; value: T }
+  | { status: 'cancelled' }
+  | { status: 'throttled'; retryInMs: number };
+
+export interface AIRequestManager {
+  // key: everything the answer depends on; equal keys on a channel share a cached answer
+  begin: <T>(channel: string, key: string, signal?: AbortSignal) => Promise<AIRequestTicket<T>>;
+  pendingCount: () => number;
+  setBudget: (requestsPerMinute: number) => void;
+  subscribe: (listener: (event: AIRequestEvent) => void) => () => void;
+}
+
+// One request in flight per channel: a newer request aborts the older one, so late answers can't overwrite newer text
+export const createAIRequestManager = ({
+  debounceMs = DEFAULT_DEBOUNCE_MS,
+  budgetPerMinute = DEFAULT_BUDGET_PER_MINUTE,
+  now = () => Date.now(),
+}: { debounceMs?: number; budgetPerMinute?: number; now?: () => number } = {}): AIRequestManager => {
+  const inFlight = new Map<string, AbortController>();
+  const cache = new Map<string, unknown>();
+  const listeners = new Set<(event: AIRequestEvent) => void>();
+  let sentAt: number[] = [];
+  let budget = budgetPerMinute;
+
+  const emit = (event: AIRequestEvent) => listeners.forEach(listener => listener(event));
+
+  const release = (channel: string, controller: AbortController) => {
+    if (inFlight.get(channel) === controller) inFlight.delete(channel);
+  };
+
+  const begin = async <T>(channel: string, key: string, signal?: AbortSignal): Promise<AIRequestTicket<T>> => {
+    // A caller that gave up already doesn't get to supersede the request in flight
+    if (signal?.aborted) {
+      emit({ type: 'cancelled', channel, reason: 'aborted' });
+      return { status: 'cancelled' };
+    }
+    inFlight.get(channel)?.abort();
+    const controller = new AbortController();
+    inFlight.set(channel, controller);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // Every way out of a request ends here, so a long-lived caller signal doesn't collect listeners
+    const settle = () => {
+      release(channel, controller);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    // The full key, not a hash of it: a collision would hand back another prompt's answer
+    const cacheKey = `${channel}|${key}`;
+    if (cache.has(cacheKey)) {
+      settle();
+      // Refresh recency so the cache evicts least recently used first
+      const value = cache.get(cacheKey) as T;
+      cache.delete(cacheKey);
+      cache.set(cacheKey, value);
+      emit({ type: 'cached', channel });
+      return { status: 'cached', value };
+    }
+
+    try {
+      await delay(debounceMs, controller.signal);
+    } catch {
+      settle();
+      emit({ type: 'cancelled', channel, reason: signal?.aborted ? 'aborted' : 'superseded' });
+      return { status: 'cancelled' };
+    }
+
+    const time = now();
+    sentAt = sentAt.filter(t => time - t < BUDGET_WINDOW_MS);
+    if (sentAt.length >= budget) {
+      settle();
+      const retryInMs = BUDGET_WINDOW_MS - (time - sentAt[0]);
+      emit({ type: 'throttled', channel, retryInMs });
+      return { status: 'throttled', retryInMs };
+    }
+    sentAt.push(time);
+    emit({ type: 'started', channel });
+
+    return {
+      status: 'go',
+      signal: controller.signal,
+      finish: (value: T) => {
+        settle();
+        if (controller.signal.aborted) return;
+        cache.set(cacheKey, value);
+        if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+        emit({ type: 'finished', channel });
+      },
+      fail: (error: unknown) => {
+        settle();
+        if (isAbortError(error) || controller.signal.aborted) {
+          emit({ type: 'cancelled', channel, reason: signal?.aborted ? 'aborted' : 'superseded' });
+        } else {
+          emit({ type: 'failed', channel });
+        }
+      },
+    };
+  };
+
+  return {
+    begin,
+    pendingCount: () => inFlight.size,
+    setBudget: (requestsPerMinute: number) => {
+      budget = requestsPerMinute;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
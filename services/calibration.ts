@@ -0,0 +1,121 @@
+import { GestureSettings, HandLandmark } from '../types';
+import { extensionRatio, LANDMARKS, pinchRatio } from './gestureEngine';
+
+export type CalibrationPose = 'open' | 'pinch' | 'fist';
+
+export const CALIBRATION_POSES: CalibrationPose[] = ['open', 'pinch', 'fist'];
+
+// Time to form each pose before sampling starts, then how long it is held and recorded
+const SETTLE_MS = 1000;
+const HOLD_MS = 3000;
+// Frame gaps longer than this (hand lost, tab hidden) don't count towards the hold
+const MAX_FRAME_GAP_MS = 100;
+const MIN_SAMPLES_PER_POSE = 10;
+// Where the pinch enter/exit thresholds sit between the pinched and the open fingertip distance
+const PINCH_ENTER_POSITION = 0.35;
+const PINCH_EXIT_POSITION = 0.55;
+// The open hand's fingertips must be at least this many times further apart than the pinch
+const MIN_PINCH_SEPARATION = 1.5;
+
+const FINGERS = [
+  [LANDMARKS.INDEX_TIP, LANDMARKS.INDEX_PIP],
+  [LANDMARKS.MIDDLE_TIP, LANDMARKS.MIDDLE_PIP],
+  [LANDMARKS.RING_TIP, LANDMARKS.RING_PIP],
+  [LANDMARKS.PINKY_TIP, LANDMARKS.PINKY_PIP],
+] as const;
+
+// One frame's distances in palm lengths, so samples taken at different camera distances agree
+export interface HandMeasurement {
+  pinch: number;
+  extensions: number[]; // Per finger, positive = tip further from the wrist than the PIP joint
+}
+
+export interface CalibrationStatus {
+  pose: CalibrationPose;
+  poseIndex: number;
+  progress: number; // 0..1 through the current pose's hold
+  handVisible: boolean;
+  done: boolean;
+}
+
+export type CalibrationResult = GestureSettings;
+
+export interface CalibrationRecorder {
+  update: (landmarks: HandLandmark[] | null, now: number) => CalibrationStatus;
+  result: () => CalibrationResult;
+}
+
+export const measureHand = (landmarks: HandLandmark[]): HandMeasurement => ({
+  pinch: pinchRatio(landmarks),
+  extensions: FINGERS.map(([tip, pip]) => extensionRatio(landmarks, tip, pip)),
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const deriveCalibration = (samples: Record<CalibrationPose, HandMeasurement[]>): CalibrationResult => {
+  CALIBRATION_POSES.forEach(pose => {
+    if (samples[pose].length < MIN_SAMPLES_PER_POSE) throw new Error(`Not enough frames of the ${pose} pose, keep the hand in view`);
+  });
+
+  const pinched = median(samples.pinch.map(s => s.pinch));
+  const apart = median(samples.open.map(s => s.pinch));
+  if (apart < pinched * MIN_PINCH_SEPARATION) {
+    throw new Error('Pinch looked like the open hand, touch the thumb and index fingertips together');
+  }
+
+  // Least extended finger of the open hand vs. most extended finger of the fist
+  const openLow = median(samples.open.map(s => Math.min(...s.extensions)));
+  const fistHigh = median(samples.fist.map(s => Math.max(...s.extensions)));
+  if (openLow <= fistHigh) {
+    throw new Error('Open hand and fist looked alike, spread the fingers fully and then curl them in');
+  }
+
+  return {
+    pinchThreshold: pinched + (apart - pinched) * PINCH_ENTER_POSITION,
+    pinchReleaseThreshold: pinched + (apart - pinched) * PINCH_EXIT_POSITION,
+    extensionThreshold: (openLow + fistHigh) / 2,
+  };
+};
+
+// Walks through the poses in order; time only counts while a hand is in view
+export const createCalibrationRecorder = (): CalibrationRecorder => {
+  const samples: Record<CalibrationPose, HandMeasurement[]> = { open: [], pinch: [], fist: [] };
+  let poseIndex = 0;
+  let elapsed = 0;
+  let lastFrame: number | null = null;
+
+  const status = (handVisible: boolean): CalibrationStatus => {
+    const done = poseIndex >= CALIBRATION_POSES.length;
+    return {
+      pose: CALIBRATION_POSES[Math.min(poseIndex, CALIBRATION_POSES.length - 1)],
+      poseIndex,
+      progress: done ? 1 : Math.min(1, Math.max(0, (elapsed - SETTLE_MS) / HOLD_MS)),
+      handVisible,
+      done,
+    };
+  };
+
+  const update = (landmarks: HandLandmark[] | null, now: number): CalibrationStatus => {
+    if (poseIndex >= CALIBRATION_POSES.length) return status(!!landmarks);
+    if (!landmarks) {
+      lastFrame = null;
+      return status(false);
+    }
+
+    if (lastFrame !== null) elapsed += Math.min(now - lastFrame, MAX_FRAME_GAP_MS);
+    lastFrame = now;
+
+    if (elapsed >= SETTLE_MS) samples[CALIBRATION_POSES[poseIndex]].push(measureHand(landmarks));
+    if (elapsed >= SETTLE_MS + HOLD_MS) {
+      poseIndex++;
+      elapsed = 0;
+    }
+    return status(true);
+  };
+
+  return { update, result: () => deriveCalibration(samples) };
+};
@@ -0,0 +1,195 @@
+import { CursorFilterSettings, LandmarkSession } from '../types';
+import { LANDMARKS } from './gestureEngine';
+import { replaySessionSync } from './sessionReplay';
+
+export interface CursorPoint {
+  x: number;
+  y: number;
+}
+
+// Filters run on normalized screen coordinates (0..1) so the tuning doesn't depend on the window size
+export interface CursorFilter {
+  update: (point: CursorPoint, now: number, settings: CursorFilterSettings) => CursorPoint;
+  reset: () => void;
+}
+
+// Estimates a point and its velocity (units per second) from noisy samples
+interface AxisEstimate {
+  value: number;
+  velocity: number;
+}
+
+// Samples further apart than this (hand lost, tab hidden) restart the filter instead of smoothing across the gap
+const MAX_GAP_S = 0.25;
+// One Euro: cutoff for the speed estimate that drives the adaptive cutoff
+const ONE_EURO_DERIVATIVE_CUTOFF = 1.0;
+// Kalman: innovations beyond this many standard deviations are treated as the hand starting a fast move
+const KALMAN_MANEUVER_SIGMA = 3;
+// Velocity estimate for prediction under the plain EMA
+const EMA_VELOCITY_SMOOTHING = 0.3;
+// Prediction fades in between these speeds (normalized screen units per second), so a still hand gets none of it
+const PREDICTION_MIN_SPEED = 0.1;
+const PREDICTION_FULL_SPEED = 0.3;
+// Gap to the measurement prediction leaves alone, about the size of tracking noise
+const PREDICTION_DEAD_ZONE = 0.003;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+// --- Exponential moving average, the original fixed smoothing ---
+const createEmaAxis = (initial: number) => {
+  const state: AxisEstimate = { value: initial, velocity: 0 };
+  return (value: number, dt: number, settings: CursorFilterSettings): AxisEstimate => {
+    const next = state.value + (value - state.value) * settings.cursorSmoothing;
+    state.velocity += ((next - state.value) / dt - state.velocity) * EMA_VELOCITY_SMOOTHING;
+    state.value = next;
+    return state;
+  };
+};
+
+// --- One Euro filter (Casiez et al. 2012): the cutoff rises with speed, smooth when still and responsive when moving ---
+const createOneEuroAxis = (initial: number) => {
+  const state: AxisEstimate = { value: initial, velocity: 0 };
+  return (value: number, dt: number, settings: CursorFilterSettings): AxisEstimate => {
+    const rawVelocity = (value - state.value) / dt;
+    state.velocity += (rawVelocity - state.velocity) * smoothingFactor(dt, ONE_EURO_DERIVATIVE_CUTOFF);
+    const cutoff = settings.oneEuroMinCutoff + settings.oneEuroBeta * Math.abs(state.velocity);
+    state.value += (value - state.value) * smoothingFactor(dt, cutoff);
+    return state;
+  };
+};
+
+// --- Constant-velocity Kalman filter; process noise is inflated while the measurements run away from the prediction ---
+const createKalmanAxis = (initial: number) => {
+  const state: AxisEstimate = { value: initial, velocity: 0 };
+  // Covariance of [position, velocity]
+  let p00 = 1, p01 = 0, p11 = 1;
+
+  return (value: number, dt: number, settings: CursorFilterSettings): AxisEstimate => {
+    const r = settings.kalmanMeasurementNoise ** 2;
+
+    // Predict
+    state.value += state.velocity * dt;
+    const n00 = p00 + dt * (2 * p01 + dt * p11);
+    const n01 = p01 + dt * p11;
+    const n11 = p11;
+
+    // Maneuver detection: a large innovation means the constant-velocity model is wrong right now
+    const innovation = value - state.value;
+    const innovationSigma = Math.sqrt(n00 + r);
+    const surprise = Math.abs(innovation) / (KALMAN_MANEUVER_SIGMA * innovationSigma);
+    const q = settings.kalmanProcessNoise ** 2 * Math.max(1, surprise * surprise);
+    p00 = n00 + q * dt ** 4 / 4;
+    p01 = n01 + q * dt ** 3 / 2;
+    p11 = n11 + q * dt ** 2;
+
+    // Update
+    const s = p00 + r;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+    state.value += k0 * innovation;
+    state.velocity += k1 * innovation;
+    p11 -= k1 * p01;
+    p01 -= k0 * p01;
+    p00 -= k0 * p00;
+    return state;
+  };
+};
+
+const AXIS_FILTERS = {
+  ema: createEmaAxis,
+  oneEuro: createOneEuroAxis,
+  kalman: createKalmanAxis,
+};
+
+type Axis = ReturnType<typeof createEmaAxis>;
+
+// Pushes the estimate ahead along its velocity, but only towards the latest measurement and never past it:
+// prediction takes back the lag smoothing adds instead of guessing where the hand will be
+const predictAxis = (estimate: AxisEstimate, measured: number, lead: number) => {
+  const push = estimate.velocity * lead;
+  const behind = measured - estimate.value;
+  if (push * behind <= 0) return estimate.value;
+  return estimate.value + Math.sign(push) * Math.min(Math.abs(push), Math.max(0, Math.abs(behind) - PREDICTION_DEAD_ZONE));
+};
+
+// Pipeline: selected filter per axis, then the output is pushed ahead along the estimated velocity to make up for smoothing lag
+export const createCursorFilter = (): CursorFilter => {
+  let axes: { kind: CursorFilterSettings['cursorFilter']; x: Axis; y: Axis } | null = null;
+  let last = 0;
+
+  const reset = () => {
+    axes = null;
+  };
+
+  const update = (point: CursorPoint, now: number, settings: CursorFilterSettings): CursorPoint => {
+    const dt = (now - last) / 1000;
+    last = now;
+    if (!axes || axes.kind !== settings.cursorFilter || dt <= 0 || dt > MAX_GAP_S) {
+      const create = AXIS_FILTERS[settings.cursorFilter];
+      axes = { kind: settings.cursorFilter, x: create(point.x), y: create(point.y) };
+      return { ...point };
+    }
+
+    const x = axes.x(point.x, dt, settings);
+    const y = axes.y(point.y, dt, settings);
+    const speed = Math.hypot(x.velocity, y.velocity);
+    const lead = settings.cursorPredictionMs / 1000
+      * clamp01((speed - PREDICTION_MIN_SPEED) / (PREDICTION_FULL_SPEED - PREDICTION_MIN_SPEED));
+    return { x: predictAxis(x, point.x, lead), y: predictAxis(y, point.y, lead) };
+  };
+
+  return { update, reset };
+};
+
+export interface CursorFilterReport {
+  frames: number;
+  jitter: number | null; // RMS frame-to-frame movement while the hand is still, normalized screen units; null = no still frames
+  lagMs: number | null; // Mean distance from the raw position while moving, divided by the speed; null = no moving frames
+}
+
+// Speeds (normalized screen widths per second) separating still from moving frames
+const STILL_SPEED = 0.05;
+const MOVING_SPEED = 0.5;
+
+// Offline comparison of filter settings on a recorded session, using the first hand's index fingertip
+export const evaluateCursorFilter = (session: LandmarkSession, settings: CursorFilterSettings): CursorFilterReport => {
+  const filter = createCursorFilter();
+  const samples: { t: number; raw: CursorPoint; out: CursorPoint }[] = [];
+  replaySessionSync(session, frame => {
+    const hand = frame.multiHandLandmarks[0];
+    if (!hand) {
+      filter.reset();
+      return;
+    }
+    const tip = hand[LANDMARKS.INDEX_TIP];
+    const raw = { x: 1 - tip.x, y: tip.y };
+    samples.push({ t: frame.t, raw, out: filter.update(raw, frame.t, settings) });
+  });
+
+  let stillSquares = 0, stillFrames = 0, lagTotal = 0, movingFrames = 0;
+  for (let i = 2; i < samples.length - 1; i++) {
+    const prev = samples[i - 1], cur = samples[i], next = samples[i + 1];
+    const dt = (next.t - samples[i - 2].t) / 1000;
+    if (dt <= 0) continue;
+    // Centered over several frames so tracking noise itself doesn't count as movement
+    const speed = Math.hypot(next.raw.x - samples[i - 2].raw.x, next.raw.y - samples[i - 2].raw.y) / dt;
+    if (speed < STILL_SPEED) {
+      stillSquares += (cur.out.x - prev.out.x) ** 2 + (cur.out.y - prev.out.y) ** 2;
+      stillFrames++;
+    } else if (speed > MOVING_SPEED) {
+      lagTotal += Math.hypot(cur.out.x - cur.raw.x, cur.out.y - cur.raw.y) / speed * 1000;
+      movingFrames++;
+    }
+  }
+
+  return {
+    frames: samples.length,
+    jitter: stillFrames ? Math.sqrt(stillSquares / stillFrames) : null,
+    lagMs: movingFrames ? lagTotal / movingFrames : null,
+  };
+};
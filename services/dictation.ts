@@ -0,0 +1,137 @@
+import { TextBuffer } from '../types';
+import { insertSegment, insertText, selectionRange } from './textBuffer';
+
+// The parts of the Web Speech API used here; browsers ship it but the TS DOM typings don't
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error?: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+export interface DictationHandlers {
+  onPartial: (transcript: string) => void; // Interim words, replaced by the next partial or final
+  onFinal: (transcript: string) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizer {
+  id: string;
+  requiresNetwork: boolean;
+  start: (handlers: DictationHandlers) => void;
+  stop: () => void;
+}
+
+// Web Speech API (Chrome, Edge, Safari); null where the browser has none
+export const createWebSpeechRecognizer = (lang = navigator.language || 'en-US'): SpeechRecognizer | null => {
+  const speech = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  const Recognition = speech.SpeechRecognition ?? speech.webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  let recognition: SpeechRecognitionLike | null = null;
+
+  return {
+    id: 'web-speech',
+    requiresNetwork: true, // Browsers send the audio to a recognition service
+    start: (handlers) => {
+      recognition?.abort();
+      const next = new Recognition();
+      recognition = next;
+      next.lang = lang;
+      next.continuous = true;
+      next.interimResults = true;
+      next.onresult = (event) => {
+        let partial = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) handlers.onFinal(result[0].transcript.trim());
+          else partial += result[0].transcript;
+        }
+        handlers.onPartial(partial.trim());
+      };
+      next.onerror = (event) => handlers.onError(event.error ?? 'speech recognition failed');
+      next.onend = () => {
+        recognition = null;
+        handlers.onEnd();
+      };
+      next.start();
+    },
+    stop: () => recognition?.stop(),
+  };
+};
+
+// Speaks a fixed script word by word, for tests and machines without a microphone
+export const createMockRecognizer = (
+  phrases: string[] = ['this was dictated', 'without a microphone'],
+  wordIntervalMs = 250
+): SpeechRecognizer => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let end: (() => void) | null = null;
+
+  const stop = () => {
+    if (timeout !== null) clearTimeout(timeout);
+    timeout = null;
+    end?.();
+    end = null;
+  };
+
+  return {
+    id: 'mock',
+    requiresNetwork: false,
+    start: (handlers) => {
+      stop();
+      end = handlers.onEnd;
+      const words = phrases.map(phrase => phrase.split(' '));
+      let phrase = 0;
+      let word = 0;
+      const step = () => {
+        if (phrase >= words.length) {
+          stop();
+          return;
+        }
+        word++;
+        const spoken = words[phrase].slice(0, word).join(' ');
+        if (word === words[phrase].length) {
+          handlers.onPartial('');
+          handlers.onFinal(spoken);
+          phrase++;
+          word = 0;
+        } else {
+          handlers.onPartial(spoken);
+        }
+        timeout = setTimeout(step, wordIntervalMs);
+      };
+      timeout = setTimeout(step, wordIntervalMs);
+    },
+    stop,
+  };
+};
+
+// ?dictation=mock picks the scripted recognizer, e.g. together with ?replay= for headless runs
+export const createRecognizer = (): SpeechRecognizer | null =>
+  new URLSearchParams(window.location.search).get('dictation') === 'mock'
+    ? createMockRecognizer()
+    : createWebSpeechRecognizer();
+
+// Inserts a final phrase at the caret as a dictation segment, spaced off the word before it
+export const insertDictated = (buffer: TextBuffer, transcript: string): TextBuffer => {
+  const before = buffer.text.slice(0, selectionRange(buffer)[0]);
+  const spaced = before && !/\s$/.test(before) ? insertText(buffer, ' ') : buffer;
+  return insertSegment(spaced, transcript, 'dictation');
+};
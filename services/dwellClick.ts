@@ -0,0 +1,39 @@
+export interface DwellState {
+  progress: number; // 0..1 toward firing on the current target
+  fired: string | null; // Target id on the frame the dwell completes
+}
+
+export interface DwellTracker {
+  update: (targetId: string | null, now: number, dwellTimeMs: number) => DwellState;
+  reset: () => void;
+}
+
+// Fires once per visit: after firing, the cursor must leave the target before it can fire again
+export const createDwellTracker = (): DwellTracker => {
+  let target: string | null = null;
+  let enteredAt = 0;
+  let firedOnTarget = false;
+
+  const reset = () => {
+    target = null;
+    enteredAt = 0;
+    firedOnTarget = false;
+  };
+
+  const update = (targetId: string | null, now: number, dwellTimeMs: number): DwellState => {
+    if (targetId !== target) {
+      target = targetId;
+      enteredAt = now;
+      firedOnTarget = false;
+    }
+    if (!target || firedOnTarget) return { progress: 0, fired: null };
+
+    const progress = Math.min(1, (now - enteredAt) / dwellTimeMs);
+    if (progress < 1) return { progress, fired: null };
+
+    firedOnTarget = true;
+    return { progress: 1, fired: target };
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,25 @@
+// Tiny external store for values that change every camera frame. Components read them with
+// useSyncExternalStore, so only those components re-render instead of the whole app.
+export interface FrameStore<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createFrameStore = <T>(initial: T): FrameStore<T> => {
+  let value = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => value,
+    set: (next) => {
+      if (next === value) return;
+      value = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
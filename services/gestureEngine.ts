@@ -0,0 +1,156 @@
+import { FingerStates, GestureCommand, GestureMode, GestureResult, GestureSettings, HandLandmark } from '../types';
+
+// MediaPipe Hands landmark indices
+export const LANDMARKS = {
+  WRIST: 0,
+  THUMB_TIP: 4,
+  INDEX_PIP: 6,
+  INDEX_TIP: 8,
+  MIDDLE_MCP: 9,
+  MIDDLE_PIP: 10,
+  MIDDLE_TIP: 12,
+  RING_PIP: 14,
+  RING_TIP: 16,
+  PINKY_PIP: 18,
+  PINKY_TIP: 20,
+} as const;
+
+// Consecutive frames a new mode must be seen before it is reported
+const MODE_DEBOUNCE_FRAMES = 2;
+// Frames a command pose must be held before it fires (~0.3s at 30fps)
+const COMMAND_HOLD_FRAMES = 9;
+// Extension margin (palm lengths) at which a finger counts as decisively up or down
+const EXTENSION_CONFIDENCE_RANGE = 0.25;
+
+export interface GestureEngine {
+  process: (landmarks: HandLandmark[], settings: GestureSettings) => GestureResult;
+  reset: () => void;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const distance3D = (a: HandLandmark, b: HandLandmark) => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+};
+
+// Wrist to middle MCP in 3D; every other distance is divided by it so moving nearer or further changes nothing
+export const palmSize = (landmarks: HandLandmark[]) =>
+  distance3D(landmarks[LANDMARKS.WRIST], landmarks[LANDMARKS.MIDDLE_MCP]) || 1;
+
+export const pinchRatio = (landmarks: HandLandmark[]) =>
+  distance3D(landmarks[LANDMARKS.INDEX_TIP], landmarks[LANDMARKS.THUMB_TIP]) / palmSize(landmarks);
+
+// How much further from the wrist the tip is than the PIP joint, in palm lengths.
+// Positive for a straight finger, negative once it curls back towards the palm, whatever the hand's orientation.
+export const extensionRatio = (landmarks: HandLandmark[], tipIdx: number, pipIdx: number) => {
+  const wrist = landmarks[LANDMARKS.WRIST];
+  return (distance3D(landmarks[tipIdx], wrist) - distance3D(landmarks[pipIdx], wrist)) / palmSize(landmarks);
+};
+
+export const createGestureEngine = (): GestureEngine => {
+  let pinching = false;
+  let mode: GestureMode = 'wait';
+  let candidate: GestureMode = 'wait';
+  let candidateFrames = 0;
+  let heldCommand: GestureCommand | null = null;
+  let commandFrames = 0;
+
+  const reset = () => {
+    pinching = false;
+    mode = 'wait';
+    candidate = 'wait';
+    candidateFrames = 0;
+    heldCommand = null;
+    commandFrames = 0;
+  };
+
+  const process = (landmarks: HandLandmark[], settings: GestureSettings): GestureResult => {
+    const margin = (tipIdx: number, pipIdx: number) => extensionRatio(landmarks, tipIdx, pipIdx) - settings.extensionThreshold;
+    const margins = {
+      index: margin(LANDMARKS.INDEX_TIP, LANDMARKS.INDEX_PIP),
+      middle: margin(LANDMARKS.MIDDLE_TIP, LANDMARKS.MIDDLE_PIP),
+      ring: margin(LANDMARKS.RING_TIP, LANDMARKS.RING_PIP),
+      pinky: margin(LANDMARKS.PINKY_TIP, LANDMARKS.PINKY_PIP),
+    };
+
+    const fingers: FingerStates = {
+      index: margins.index > 0,
+      middle: margins.middle > 0,
+      ring: margins.ring > 0,
+      pinky: margins.pinky > 0,
+    };
+    const extendedCount = Object.values(fingers).filter(Boolean).length;
+
+    // Pinch (Thumb + Index distance) with separate enter/exit thresholds so the click state doesn't flicker
+    const pinchDistance = pinchRatio(landmarks);
+    const { pinchThreshold } = settings;
+    const releaseThreshold = Math.max(settings.pinchReleaseThreshold, pinchThreshold);
+    pinching = pinching ? pinchDistance < releaseThreshold : pinchDistance < pinchThreshold;
+    const pinchStrength = clamp01(1 - pinchDistance / (pinchThreshold * 2));
+
+    // "2 Fingers" (Peace Sign) and Open Hand
+    const isTwoFinger = fingers.index && fingers.middle && !fingers.ring && !fingers.pinky;
+    const isOpenHand = extendedCount >= 3;
+
+    // Cursor moves only with an open hand; pinch or 2 fingers clicks
+    let rawMode: GestureMode = 'wait';
+    if (isOpenHand && !pinching) {
+      rawMode = 'move';
+    } else if (pinching || isTwoFinger) {
+      rawMode = 'click';
+    }
+
+    // Debounce mode changes
+    if (rawMode === mode) {
+      candidate = mode;
+      candidateFrames = 0;
+    } else {
+      candidateFrames = rawMode === candidate ? candidateFrames + 1 : 1;
+      candidate = rawMode;
+      if (candidateFrames >= MODE_DEBOUNCE_FRAMES) {
+        mode = rawMode;
+        candidateFrames = 0;
+      }
+    }
+
+    // Command poses: pinky alone = undo, index + pinky ("horns") = redo. Fires once per hold.
+    let pose: GestureCommand | null = null;
+    if (!pinching && fingers.pinky && !fingers.middle && !fingers.ring) {
+      pose = fingers.index ? 'redo' : 'undo';
+    }
+    let command: GestureCommand | null = null;
+    if (pose !== heldCommand) {
+      heldCommand = pose;
+      commandFrames = 0;
+    }
+    if (pose) {
+      commandFrames++;
+      if (commandFrames === COMMAND_HOLD_FRAMES) command = pose;
+    }
+
+    // Confidence: average distance of every feature from its decision boundary
+    const fingerConfidence = Object.values(margins)
+      .map(margin => clamp01(Math.abs(margin) / EXTENSION_CONFIDENCE_RANGE));
+    const pinchConfidence = clamp01(Math.abs(pinchDistance - pinchThreshold) / pinchThreshold);
+    const decisiveness = [...fingerConfidence, pinchConfidence].reduce((sum, c) => sum + c, 0) / 5;
+    const confidence = rawMode === mode ? decisiveness : decisiveness * 0.5;
+
+    return {
+      mode,
+      fingers,
+      extendedCount,
+      pinchDistance,
+      pinchStrength,
+      isPinching: pinching,
+      isTwoFinger,
+      isOpenHand,
+      confidence,
+      command,
+    };
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,65 @@
+import { GestureResult, HandLandmark } from '../types';
+import { LANDMARKS } from './gestureEngine';
+
+export type GhostGesture = 'accept' | 'dismiss';
+
+// A flick must cover this much of the (normalized) screen width within the window
+const FLICK_DISTANCE = 0.2;
+const FLICK_WINDOW_MS = 300;
+// Vertical drift allowed per unit of horizontal travel
+const FLICK_MAX_SLOPE = 0.6;
+// Open palm held this long without moving dismisses
+const PALM_HOLD_MS = 1200;
+const PALM_STILL_RADIUS = 0.03;
+
+export interface GhostGestureDetector {
+  // overKeyboard: the fingertip is over the keys, where open-hand moves and holds are just aiming
+  update: (landmarks: HandLandmark[], gesture: GestureResult, now: number, overKeyboard: boolean) => GhostGesture | null;
+  reset: () => void;
+}
+
+// Accept/dismiss gestures for ghost-text suggestions, kept apart from typing by only counting above the
+// keyboard: swipe right with an open hand, or hold an open palm still
+export const createGhostGestureDetector = (): GhostGestureDetector => {
+  let trail: { t: number; x: number; y: number }[] = [];
+  let palm: { t: number; x: number; y: number; fired: boolean } | null = null;
+
+  const reset = () => {
+    trail = [];
+    palm = null;
+  };
+
+  const update = (landmarks: HandLandmark[], gesture: GestureResult, now: number, overKeyboard: boolean): GhostGesture | null => {
+    const wrist = landmarks[LANDMARKS.WRIST];
+    const point = { t: now, x: 1 - wrist.x, y: wrist.y }; // Mirrored, so +x is right on screen
+
+    if (!gesture.isOpenHand || gesture.isPinching || overKeyboard) {
+      reset();
+      return null;
+    }
+
+    // --- Swipe right ---
+    trail = [...trail.filter(p => now - p.t <= FLICK_WINDOW_MS), point];
+    const start = trail[0];
+    const dx = point.x - start.x;
+    if (dx >= FLICK_DISTANCE && Math.abs(point.y - start.y) <= dx * FLICK_MAX_SLOPE) {
+      reset();
+      return 'accept';
+    }
+
+    // --- Open palm hold (all four fingers up) ---
+    if (gesture.extendedCount < 4) {
+      palm = null;
+      return null;
+    }
+    if (!palm || Math.hypot(point.x - palm.x, point.y - palm.y) > PALM_STILL_RADIUS) {
+      palm = { ...point, fired: false };
+    } else if (!palm.fired && now - palm.t >= PALM_HOLD_MS) {
+      palm.fired = true;
+      return 'dismiss';
+    }
+    return null;
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,45 @@
+import { OverlayHand } from '../types';
+
+// MediaPipe hand skeleton, pairs of landmark indices
+export const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20],
+];
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Dimmed camera frame plus hand skeletons; plain canvas calls so it runs the same on the main thread and in a worker
+export const drawHandOverlay = (ctx: Context2D, image: CanvasImageSource | null, hands: OverlayHand[]) => {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+
+  // Dim the video to make UI pop; replayed sessions carry landmarks only, no camera image
+  if (image) {
+    ctx.globalAlpha = 0.3;
+    ctx.drawImage(image, 0, 0, width, height);
+    ctx.globalAlpha = 1.0;
+  }
+
+  for (const { landmarks, assist } of hands) {
+    ctx.strokeStyle = assist ? 'rgba(168, 85, 247, 0.4)' : 'rgba(34, 211, 238, 0.4)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const [from, to] of HAND_CONNECTIONS) {
+      ctx.moveTo(landmarks[from].x * width, landmarks[from].y * height);
+      ctx.lineTo(landmarks[to].x * width, landmarks[to].y * height);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = assist ? '#a855f7' : '#22d3ee';
+    for (const point of landmarks) {
+      ctx.beginPath();
+      ctx.arc(point.x * width, point.y * height, 2, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,41 @@
+import { Handedness, HandLandmark, HandMode, HandRole, HandSide } from '../types';
+
+export interface AssignedHand {
+  side: HandSide;
+  role: HandRole;
+  landmarks: HandLandmark[];
+}
+
+export const otherHand = (side: HandSide): HandSide => (side === 'left' ? 'right' : 'left');
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view).
+// The camera feed we send is not mirrored, so the label is swapped.
+export const handSideFromLabel = (label?: string): HandSide | null => {
+  if (label === 'Left') return 'right';
+  if (label === 'Right') return 'left';
+  return null;
+};
+
+// Decides which detected hand is which and what it does this frame
+export const assignHands = (
+  multiHandLandmarks: HandLandmark[][],
+  multiHandedness: Handedness[] | undefined,
+  handMode: HandMode,
+  pointerHand: HandSide
+): AssignedHand[] => {
+  if (multiHandLandmarks.length === 0) return [];
+
+  if (handMode === 'single') {
+    return [{ side: pointerHand, role: 'pointer', landmarks: multiHandLandmarks[0] }];
+  }
+
+  const used = new Set<HandSide>();
+  return multiHandLandmarks.slice(0, 2).map((landmarks, i) => {
+    let side = handSideFromLabel(multiHandedness?.[i]?.label) ?? (i === 0 ? pointerHand : otherHand(pointerHand));
+    // Both hands occasionally get the same label; the second one takes the free side
+    if (used.has(side)) side = otherHand(side);
+    used.add(side);
+    const role: HandRole = handMode === 'roles' && side !== pointerHand ? 'assist' : 'pointer';
+    return { side, role, landmarks };
+  });
+};
@@ -0,0 +1,67 @@
+import { HandTracker, HandTrackerId, HandTrackerStartOptions } from '../types';
+import { createLegacyHandsTracker } from './trackers/legacyHandsTracker';
+import { createSyntheticTracker } from './trackers/syntheticTracker';
+import { createTasksVisionTracker, isWorkerTrackingSupported } from './trackers/tasksVisionTracker';
+
+// 'auto' prefers the tasks-vision worker and falls back to the legacy solution on the main thread
+export type HandTrackerChoice = HandTrackerId | 'auto';
+
+const TRACKER_IDS: HandTrackerId[] = ['tasks-vision', 'legacy', 'synthetic'];
+
+const readEnvTracker = () => {
+  try {
+    if (typeof process !== "undefined" && process.env) return process.env.HAND_TRACKER;
+  } catch (e) {
+    console.warn("Error accessing process.env", e);
+  }
+  return undefined;
+};
+
+// ?tracker=<id> wins over HAND_TRACKER in .env.local (injected by vite.config.ts), e.g. ?tracker=synthetic for headless runs
+export const readHandTrackerConfig = (): HandTrackerChoice => {
+  const value = new URLSearchParams(window.location.search).get('tracker') ?? readEnvTracker();
+  return TRACKER_IDS.find(id => id === value) ?? 'auto';
+};
+
+export const createHandTracker = (id: HandTrackerId): HandTracker => {
+  switch (id) {
+    case 'tasks-vision':
+      return createTasksVisionTracker();
+    case 'legacy':
+      return createLegacyHandsTracker();
+    case 'synthetic':
+      return createSyntheticTracker();
+  }
+};
+
+const candidatesFor = (choice: HandTrackerChoice): HandTrackerId[] => {
+  if (choice !== 'auto') return [choice];
+  return isWorkerTrackingSupported() ? ['tasks-vision', 'legacy'] : ['legacy'];
+};
+
+// Starts the first candidate backend that works. The camera is started once, before the first backend
+// that needs it; a camera failure rejects outright since no other backend would fare better.
+export const startHandTracker = async (
+  choice: HandTrackerChoice,
+  options: HandTrackerStartOptions,
+  startCamera: () => Promise<void>
+): Promise<HandTracker> => {
+  const candidates = candidatesFor(choice);
+  let cameraStarted = false;
+  for (const [i, id] of candidates.entries()) {
+    const tracker = createHandTracker(id);
+    if (tracker.usesCamera && !cameraStarted) {
+      await startCamera();
+      cameraStarted = true;
+    }
+    try {
+      await tracker.start(options);
+      return tracker;
+    } catch (err) {
+      tracker.stop();
+      if (i === candidates.length - 1 || options.signal?.aborted) throw err;
+      console.warn(`${id} hand tracking unavailable, trying ${candidates[i + 1]}`, err);
+    }
+  }
+  throw new Error('No hand tracker to start');
+};
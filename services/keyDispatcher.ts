@@ -0,0 +1,54 @@
+import { Key, KeyAction, KeyboardLayer, KeyboardLayout, KeyDispatchAction, ShiftState } from '../types';
+
+// Single cased character whose uppercase form is also a single character ('ß' stays as-is)
+const isCasedChar = (value: string) =>
+  value.length === 1 && value.toUpperCase() !== value.toLowerCase() && value.toUpperCase().length === 1;
+
+export const applyShift = (value: string, shiftState: ShiftState) => {
+  if (!isCasedChar(value)) return value;
+  return shiftState === 'off' ? value.toLowerCase() : value.toUpperCase();
+};
+
+export const findKey = (layout: KeyboardLayout, layer: KeyboardLayer, keyId: string): Key | undefined => {
+  const rows = layout.layers[layer] ?? layout.layers.base;
+  for (const row of rows) {
+    const key = row.find(k => k.id === keyId);
+    if (key) return key;
+  }
+  return undefined;
+};
+
+const ACTIONS: Record<KeyAction, KeyDispatchAction> = {
+  BACKSPACE: { type: 'delete' },
+  ENTER: { type: 'newline' },
+  SHIFT: { type: 'modifier', modifier: 'SHIFT' },
+  SYMBOLS: { type: 'modifier', modifier: 'SYMBOLS' },
+  LETTERS: { type: 'modifier', modifier: 'LETTERS' },
+  CURSOR_LEFT: { type: 'navigate', direction: 'left', unit: 'char' },
+  CURSOR_RIGHT: { type: 'navigate', direction: 'right', unit: 'char' },
+  WORD_LEFT: { type: 'navigate', direction: 'left', unit: 'word' },
+  WORD_RIGHT: { type: 'navigate', direction: 'right', unit: 'word' },
+  CLEAR: { type: 'command', command: 'CLEAR' },
+  AI_ACTIONS: { type: 'modifier', modifier: 'AI_ACTIONS' },
+  UNDO: { type: 'command', command: 'UNDO' },
+  REDO: { type: 'command', command: 'REDO' },
+  DICTATION: { type: 'command', command: 'TOGGLE_DICTATION' },
+  FIX_DICTATION: { type: 'command', command: 'FIX_DICTATION' },
+};
+
+export const resolveKeyAction = (key: Key, shiftState: ShiftState): KeyDispatchAction | null => {
+  if (key.type === 'action') return ACTIONS[key.value as KeyAction] ?? null;
+  if (key.type === 'ai') return { type: 'ai', templateId: key.value };
+  return { type: 'insert', text: applyShift(key.value, shiftState) };
+};
+
+// Entry point for every input source: key id in, typed action out
+export const dispatchKey = (
+  layout: KeyboardLayout,
+  layer: KeyboardLayer,
+  keyId: string,
+  shiftState: ShiftState
+): KeyDispatchAction | null => {
+  const key = findKey(layout, layer, keyId);
+  return key ? resolveKeyAction(key, shiftState) : null;
+};
@@ -0,0 +1,55 @@
+export interface TargetPoint {
+  x: number;
+  y: number;
+}
+
+// Distances below are in key heights, so the feel is the same at any keyboard size
+// A cursor in a gap snaps to the nearest key within this distance of its edge
+const SNAP_RADIUS = 0.35;
+// The hovered key keeps the cursor until another key is this much closer, so edge jitter doesn't flip between neighbours
+const STICKY_MARGIN = 0.3;
+// A letter the language model is certain of grows by this much on every side; the drawn key is unchanged
+const MAX_PRIOR_EXPANSION = 0.2;
+
+export interface KeyTargeter {
+  // priors: key id -> 0..1 likelihood of being typed next, missing = no boost
+  update: (point: TargetPoint, rects: Record<string, DOMRect>, priors?: Record<string, number>) => string | null;
+  reset: () => void;
+}
+
+// Negative inside the rect (depth to the nearest edge), positive outside (distance to the rect)
+const signedDistance = (point: TargetPoint, rect: DOMRect) => {
+  const dx = Math.max(rect.left - point.x, point.x - (rect.left + rect.width));
+  const dy = Math.max(rect.top - point.y, point.y - (rect.top + rect.height));
+  if (dx <= 0 && dy <= 0) return Math.max(dx, dy);
+  return Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+};
+
+// Magnetic hit-testing: picks the key with the smallest effective distance, not just the rect under the point
+export const createKeyTargeter = (): KeyTargeter => {
+  let current: string | null = null;
+
+  const update = (point: TargetPoint, rects: Record<string, DOMRect>, priors: Record<string, number> = {}) => {
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    for (const keyId of Object.keys(rects)) {
+      const rect = rects[keyId];
+      if (rect.height <= 0) continue;
+      let distance = signedDistance(point, rect) / rect.height - MAX_PRIOR_EXPANSION * (priors[keyId] ?? 0);
+      if (distance > SNAP_RADIUS) continue;
+      if (keyId === current) distance -= STICKY_MARGIN;
+      if (distance < bestDistance) {
+        best = keyId;
+        bestDistance = distance;
+      }
+    }
+    current = best;
+    return best;
+  };
+
+  const reset = () => {
+    current = null;
+  };
+
+  return { update, reset };
+};
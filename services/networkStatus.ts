@@ -0,0 +1,12 @@
+// Connectivity as an external store for useSyncExternalStore. navigator.onLine only knows whether
+// there is a network at all, so requests can still fail while "online"; the request manager reports those.
+export const isOnline = () => navigator.onLine;
+
+export const subscribeOnline = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
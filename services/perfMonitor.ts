@@ -0,0 +1,54 @@
+import { HandTrackerId } from '../types';
+import { createFrameStore, FrameStore } from './frameStore';
+
+export interface PerfStats {
+  fps: number; // Tracking results handled per second
+  frameMs: number; // Main-thread time spent handling one result
+  inferenceMs: number | null; // Model time per frame, null when unknown (replays)
+  tracker: HandTrackerId | null; // Backend producing the frames, null before one started
+}
+
+// Averages are published this often so the HUD itself doesn't cost a render per frame
+const PUBLISH_INTERVAL_MS = 500;
+
+export interface PerfMonitor {
+  record: (frameMs: number, inferenceMs: number | null, now: number) => void;
+  setTracker: (tracker: HandTrackerId) => void;
+  stats: FrameStore<PerfStats>;
+}
+
+export const createPerfMonitor = (): PerfMonitor => {
+  const stats = createFrameStore<PerfStats>({ fps: 0, frameMs: 0, inferenceMs: null, tracker: null });
+  let windowStart: number | null = null;
+  let frames = 0;
+  let frameTotal = 0;
+  let inferenceTotal = 0;
+  let inferenceFrames = 0;
+
+  const record = (frameMs: number, inferenceMs: number | null, now: number) => {
+    if (windowStart === null) windowStart = now;
+    frames++;
+    frameTotal += frameMs;
+    if (inferenceMs !== null) {
+      inferenceTotal += inferenceMs;
+      inferenceFrames++;
+    }
+
+    const elapsed = now - windowStart;
+    if (elapsed < PUBLISH_INTERVAL_MS) return;
+    stats.set({
+      ...stats.get(),
+      fps: (frames * 1000) / elapsed,
+      frameMs: frameTotal / frames,
+      inferenceMs: inferenceFrames ? inferenceTotal / inferenceFrames : null,
+    });
+    windowStart = now;
+    frames = frameTotal = inferenceTotal = inferenceFrames = 0;
+  };
+
+  return {
+    record,
+    setTracker: (tracker) => stats.set({ ...stats.get(), tracker }),
+    stats,
+  };
+};
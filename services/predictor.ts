@@ -0,0 +1,139 @@
+import { COMMON_WORDS, WORD_FREQUENCIES } from '../data/words';
+
+const STORAGE_KEY = 'airtype_predictor';
+const MODEL_VERSION = 1;
+// Learned words beyond this are pruned, least used first
+const MAX_LEARNED_WORDS = 2000;
+// How much one observed use outweighs the bundled dictionary
+const LEARNED_UNIGRAM_WEIGHT = 2;
+const BIGRAM_WEIGHT = 6;
+
+export interface PredictorModel {
+  version: number;
+  unigrams: Record<string, number>;
+  bigrams: Record<string, Record<string, number>>;
+}
+
+export interface PredictionContext {
+  previous: string | null; // Last complete word before the caret
+  prefix: string; // Partial word touching the caret, '' when starting a new word
+}
+
+export interface Predictor {
+  predict: (textBeforeCaret: string, maxResults?: number) => string[];
+  learn: (textBeforeCaret: string) => void;
+  nextLetters: (textBeforeCaret: string) => Record<string, number>;
+  model: () => PredictorModel;
+}
+
+type PredictorStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const WORD_PATTERN = /[\p{L}']+/gu;
+
+export const tokenize = (text: string) => (text.match(WORD_PATTERN) ?? []).map(w => w.toLowerCase());
+
+export const predictionContext = (textBeforeCaret: string): PredictionContext => {
+  const prefix = textBeforeCaret.match(/[\p{L}']+$/u)?.[0] ?? '';
+  const words = tokenize(textBeforeCaret.slice(0, textBeforeCaret.length - prefix.length));
+  // A sentence end resets the bigram context
+  const endsSentence = /[.!?]\s*$/.test(textBeforeCaret.slice(0, textBeforeCaret.length - prefix.length));
+  return { previous: endsSentence ? null : words[words.length - 1] ?? null, prefix };
+};
+
+// Match the casing of what the user already typed ("Th" -> "The")
+const matchCase = (word: string, prefix: string) =>
+  prefix && prefix[0] !== prefix[0].toLowerCase() ? word[0].toUpperCase() + word.slice(1) : word;
+
+const emptyModel = (): PredictorModel => ({ version: MODEL_VERSION, unigrams: {}, bigrams: {} });
+
+const loadModel = (storage: PredictorStorage | null): PredictorModel => {
+  try {
+    const data = JSON.parse(storage?.getItem(STORAGE_KEY) ?? 'null');
+    if (data?.version === MODEL_VERSION && data.unigrams && data.bigrams) return data;
+  } catch (e) {
+    console.warn('Predictor model unreadable, starting fresh', e);
+  }
+  return emptyModel();
+};
+
+const pruneModel = (model: PredictorModel) => {
+  const words = Object.keys(model.unigrams);
+  if (words.length <= MAX_LEARNED_WORDS) return;
+  const keep = new Set(words.sort((a, b) => model.unigrams[b] - model.unigrams[a]).slice(0, MAX_LEARNED_WORDS));
+  words.forEach(word => {
+    if (!keep.has(word)) {
+      delete model.unigrams[word];
+      delete model.bigrams[word];
+    }
+  });
+};
+
+// Unigram + bigram model over the bundled dictionary and the user's own typing
+export const createPredictor = (storage: PredictorStorage | null = null): Predictor => {
+  const learned = loadModel(storage);
+  const maxBaseFrequency = Math.max(...Object.values(WORD_FREQUENCIES));
+
+  const score = (word: string, previous: string | null) => {
+    const base = Math.log(1 + (WORD_FREQUENCIES[word] ?? 0)) / Math.log(1 + maxBaseFrequency);
+    const unigram = Math.log(1 + (learned.unigrams[word] ?? 0)) * LEARNED_UNIGRAM_WEIGHT;
+    const bigram = previous ? Math.log(1 + (learned.bigrams[previous]?.[word] ?? 0)) * BIGRAM_WEIGHT : 0;
+    return base + unigram + bigram;
+  };
+
+  // Words that could complete the partial word before the caret
+  const candidates = (textBeforeCaret: string) => {
+    const { previous, prefix } = predictionContext(textBeforeCaret);
+    const lowerPrefix = prefix.toLowerCase();
+    const vocabulary = new Set([
+      ...Object.keys(previous ? learned.bigrams[previous] ?? {} : {}),
+      ...Object.keys(learned.unigrams),
+      ...COMMON_WORDS,
+    ]);
+    const words = [...vocabulary].filter(word => word.startsWith(lowerPrefix) && word !== lowerPrefix);
+    return { previous, prefix, words };
+  };
+
+  const predict = (textBeforeCaret: string, maxResults = 3) => {
+    const { previous, prefix, words } = candidates(textBeforeCaret);
+    return words
+      .map(word => ({ word, score: score(word, previous) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults)
+      .map(({ word }) => matchCase(word, prefix));
+  };
+
+  // Probability of each lowercase letter being typed next, weighted by the words it would continue
+  const nextLetters = (textBeforeCaret: string) => {
+    const { previous, prefix, words } = candidates(textBeforeCaret);
+    const weights: Record<string, number> = {};
+    let total = 0;
+    words.forEach(word => {
+      const letter = word[prefix.length];
+      const weight = Math.exp(score(word, previous));
+      weights[letter] = (weights[letter] ?? 0) + weight;
+      total += weight;
+    });
+    Object.keys(weights).forEach(letter => { weights[letter] /= total; });
+    return weights;
+  };
+
+  // Called when a word is finished: counts it and the pair it forms with the word before
+  const learn = (textBeforeCaret: string) => {
+    const { previous, prefix } = predictionContext(textBeforeCaret.replace(/[^\p{L}']+$/u, ''));
+    const word = prefix.toLowerCase();
+    if (!word) return;
+    learned.unigrams[word] = (learned.unigrams[word] ?? 0) + 1;
+    if (previous) {
+      learned.bigrams[previous] = learned.bigrams[previous] ?? {};
+      learned.bigrams[previous][word] = (learned.bigrams[previous][word] ?? 0) + 1;
+    }
+    pruneModel(learned);
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(learned));
+    } catch (e) {
+      console.warn('Predictor model could not be saved', e);
+    }
+  };
+
+  return { predict, learn, nextLetters, model: () => learned };
+};
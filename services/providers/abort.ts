@@ -0,0 +1,20 @@
+export const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Rejects as soon as the signal fires, for SDK calls that cannot be cancelled themselves
+export const withAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+};
+
+export const delay = (ms: number, signal?: AbortSignal) =>
+  withAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
@@ -0,0 +1,34 @@
+import { GoogleGenAI } from "@google/genai";
+import { TextAIProvider } from '../../types';
+import { abortError, withAbort } from './abort';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: { apiKey: string; model?: string }): TextAIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    generate: async ({ system, prompt, maxOutputTokens, signal }) => {
+      if (!apiKey) throw new Error('No API Key found for Gemini');
+      const response = await withAbort(ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { systemInstruction: system, ...(maxOutputTokens ? { maxOutputTokens } : {}) },
+      }), signal);
+      return response.text?.trim() ?? '';
+    },
+    stream: async function* ({ system, prompt, maxOutputTokens, signal }) {
+      if (!apiKey) throw new Error('No API Key found for Gemini');
+      const chunks = await withAbort(ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { systemInstruction: system, ...(maxOutputTokens ? { maxOutputTokens } : {}) },
+      }), signal);
+      for await (const chunk of chunks) {
+        if (signal?.aborted) throw abortError();
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
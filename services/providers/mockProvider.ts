@@ -0,0 +1,86 @@
+import { TextAIProvider, TextAIRequest } from '../../types';
+import { createPredictor, predictionContext } from '../predictor';
+import { delay } from './abort';
+
+// Typos the mock corrects, enough to see AI FIX change something
+const CORRECTIONS: Record<string, string> = {
+  i: 'I',
+  im: "I'm",
+  dont: "don't",
+  cant: "can't",
+  wont: "won't",
+  teh: 'the',
+  adn: 'and',
+  recieve: 'receive',
+  thier: 'their',
+  becuase: 'because',
+};
+
+const COMPLETIONS = ['for you', 'as soon as possible', 'later today', 'with the team'];
+
+export const mockCorrect = (text: string) => {
+  const fixed = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\p{L}']+/gu, word => CORRECTIONS[word.toLowerCase()] ?? word)
+    // Capitalize the start of every sentence
+    .replace(/(^|[.!?]\s+)(\p{Ll})/gu, (_, boundary, letter) => boundary + letter.toUpperCase());
+  return fixed && !/[.!?]$/.test(fixed) ? `${fixed}.` : fixed;
+};
+
+// Finishes the word at the end, then adds a canned phrase picked from the text length
+export const mockComplete = (text: string) => {
+  const { prefix } = predictionContext(text);
+  const [word] = prefix ? createPredictor().predict(text, 1) : [];
+  const rest = word ? word.slice(prefix.length) : '';
+  const phrase = COMPLETIONS[text.length % COMPLETIONS.length];
+  return `${rest}${text.length > 0 && !/\s$/.test(text) ? ' ' : ''}${phrase}`;
+};
+
+const EXPANSIONS: Record<string, string> = {
+  "I'm": 'I am',
+  "don't": 'do not',
+  "can't": 'cannot',
+  "won't": 'will not',
+  hi: 'Hello',
+  hey: 'Hello',
+};
+
+const FILLERS = new Set(['really', 'very', 'just', 'actually', 'basically', 'literally']);
+
+// One rule per built-in template; custom templates get the plain fix
+export const mockRewrite = (templateId: string | undefined, text: string) => {
+  const fixed = mockCorrect(text);
+  switch (templateId) {
+    case 'formal':
+      return fixed.replace(/[\p{L}']+/gu, word => EXPANSIONS[word] ?? EXPANSIONS[word.toLowerCase()] ?? word);
+    case 'shorten':
+      return mockCorrect(text.split(/\s+/).filter(word => !FILLERS.has(word.toLowerCase())).join(' '));
+    case 'translate':
+      return `[es] ${fixed}`;
+    case 'summarize':
+      return fixed.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? fixed;
+    default:
+      return fixed;
+  }
+};
+
+const mockOutput = ({ task, templateId, text }: TextAIRequest) =>
+  task === 'rewrite' ? mockRewrite(templateId, text) : mockComplete(text);
+
+// Deterministic offline backend for development and end-to-end runs without a network
+export const createMockProvider = ({ latencyMs = 300 }: { latencyMs?: number } = {}): TextAIProvider => ({
+  id: 'mock',
+  generate: async (request) => {
+    await delay(latencyMs, request.signal);
+    return mockOutput(request);
+  },
+  // Streams the same output word by word
+  stream: async function* (request) {
+    for (const chunk of mockOutput(request).match(/\S*\s*/g) ?? []) {
+      if (!chunk) continue;
+      await delay(latencyMs / 3, request.signal);
+      yield chunk;
+    }
+  },
+});
@@ -0,0 +1,74 @@
+import { TextAIProvider, TextAIRequest } from '../../types';
+
+interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for a local server
+  model: string;
+  apiKey?: string;
+}
+
+// An empty or relative base URL would post to the app's own origin
+const parseBaseUrl = (baseUrl: string) => {
+  let url: URL | null = null;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new Error(`AI_BASE_URL must be an absolute http(s) URL for the openai provider, got "${baseUrl}"`);
+  }
+  return url.href.replace(/\/+$/, '');
+};
+
+// Any server speaking the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...)
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): TextAIProvider => {
+  const endpoint = `${parseBaseUrl(baseUrl)}/chat/completions`;
+
+  const complete = async ({ system, prompt, maxOutputTokens, signal }: TextAIRequest, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: prompt }],
+        ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`${baseUrl} responded ${response.status}`);
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    generate: async (request) => {
+      const data = await (await complete(request, false)).json();
+      return data.choices?.[0]?.message?.content?.trim() ?? '';
+    },
+    // Server-sent events, one "data: {json}" line per delta until "data: [DONE]"
+    stream: async function* (request) {
+      const response = await complete(request, true);
+      if (!response.body) return;
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let pending = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        pending += value;
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import { Handedness, HandLandmark, LandmarkFrame, LandmarkSession } from '../types';
+
+export const SESSION_VERSION = 1;
+
+export interface SessionRecorder {
+  start: () => void;
+  stop: () => LandmarkSession;
+  record: (results: { multiHandLandmarks?: HandLandmark[][]; multiHandedness?: Handedness[] }) => void;
+  isRecording: () => boolean;
+}
+
+// Keep only the fields we replay, MediaPipe objects carry extra properties (visibility, index)
+const copyLandmarks = (hands: HandLandmark[][]) =>
+  hands.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })));
+
+export const createSessionRecorder = (now: () => number = () => performance.now()): SessionRecorder => {
+  let frames: LandmarkFrame[] = [];
+  let startedAt: number | null = null;
+  let recordedAt = '';
+
+  return {
+    start: () => {
+      frames = [];
+      startedAt = now();
+      recordedAt = new Date().toISOString();
+    },
+    stop: () => {
+      startedAt = null;
+      return { version: SESSION_VERSION, recordedAt, frames };
+    },
+    record: (results) => {
+      if (startedAt === null) return;
+      frames.push({
+        t: Math.round(now() - startedAt),
+        multiHandLandmarks: copyLandmarks(results.multiHandLandmarks ?? []),
+        multiHandedness: results.multiHandedness?.map(({ label, score }) => ({ label, score })),
+      });
+    },
+    isRecording: () => startedAt !== null,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isLandmark = (value: unknown): value is HandLandmark =>
+  isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+
+const isFrame = (value: unknown): value is LandmarkFrame =>
+  isRecord(value)
+  && typeof value.t === 'number'
+  && Array.isArray(value.multiHandLandmarks)
+  && value.multiHandLandmarks.every((hand: unknown) => Array.isArray(hand) && hand.every(isLandmark));
+
+export const parseSession = (json: string): LandmarkSession => {
+  const data: unknown = JSON.parse(json);
+  if (!isRecord(data) || data.version !== SESSION_VERSION || !Array.isArray(data.frames)) {
+    throw new Error(`Unsupported session file (expected version ${SESSION_VERSION})`);
+  }
+  const frames = data.frames.map((frame: unknown, i: number) => {
+    if (!isFrame(frame)) throw new Error(`Invalid session frame at index ${i}`);
+    return frame;
+  });
+  return { version: SESSION_VERSION, recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '', frames };
+};
+
+export const downloadSession = (session: LandmarkSession) => {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `airtype-session-${session.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,62 @@
+import { LandmarkFrame, LandmarkSession } from '../types';
+
+export interface ReplayOptions {
+  speed?: number; // 1 = recorded speed
+  loop?: boolean;
+  onEnd?: () => void;
+}
+
+export interface ReplaySource {
+  start: () => void;
+  stop: () => void;
+}
+
+// Plays frames back on their recorded timestamps, one timer per frame so ordering is exact
+export const createReplaySource = (
+  session: LandmarkSession,
+  onFrame: (frame: LandmarkFrame) => void,
+  { speed = 1, loop = false, onEnd }: ReplayOptions = {}
+): ReplaySource => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let index = 0;
+  let loopOffset = 0;
+
+  const scheduleNext = () => {
+    if (index >= session.frames.length) {
+      if (loop && session.frames.length > 0) {
+        index = 0;
+        loopOffset = 0;
+      } else {
+        timeout = null;
+        onEnd?.();
+        return;
+      }
+    }
+    const frame = session.frames[index];
+    const delay = Math.max(0, (frame.t - loopOffset) / speed);
+    timeout = setTimeout(() => {
+      index++;
+      loopOffset = frame.t;
+      onFrame(frame);
+      scheduleNext();
+    }, delay);
+  };
+
+  return {
+    start: () => {
+      if (timeout !== null) return;
+      index = 0;
+      loopOffset = 0;
+      scheduleNext();
+    },
+    stop: () => {
+      if (timeout !== null) clearTimeout(timeout);
+      timeout = null;
+    },
+  };
+};
+
+// Synchronous playback for headless runs where wall-clock timing doesn't matter
+export const replaySessionSync = (session: LandmarkSession, onFrame: (frame: LandmarkFrame) => void) => {
+  session.frames.forEach(onFrame);
+};
@@ -0,0 +1,205 @@
+import { DEFAULT_LAYOUT_ID } from '../layouts';
+import { AppSettings } from '../types';
+
+const STORAGE_KEY = 'airtype_settings';
+export const SETTINGS_VERSION = 2;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  cursorFilter: 'oneEuro',
+  cursorSmoothing: 0.4,
+  oneEuroMinCutoff: 1.0,
+  oneEuroBeta: 10,
+  kalmanProcessNoise: 2,
+  kalmanMeasurementNoise: 0.004,
+  cursorPredictionMs: 0,
+  pinchThreshold: 0.3,
+  pinchReleaseThreshold: 0.45,
+  extensionThreshold: 0.15,
+  layoutId: DEFAULT_LAYOUT_ID,
+  activationMode: 'pinch',
+  dwellTimeMs: 800,
+  handMode: 'single',
+  pointerHand: 'right',
+  swipeTyping: true,
+  aiRequestsPerMinute: 20,
+};
+
+// One person's tuning; several people share a station, each picks their own
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: AppSettings;
+}
+
+export interface SettingsStore {
+  version: number;
+  activeProfileId: string;
+  profiles: SettingsProfile[];
+}
+
+// What an export file holds; imports accept the same shape from any older version
+export interface ProfilesFile {
+  version: number;
+  exportedAt: string;
+  profiles: SettingsProfile[];
+}
+
+// Stored and imported settings are untrusted JSON until normalizeSettings has checked every field
+type RawSettings = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawSettings => typeof value === 'object' && value !== null;
+
+// MIGRATIONS[n] upgrades a stored profile's settings from version n + 1 to n + 2
+const MIGRATIONS: ((settings: RawSettings) => RawSettings)[] = [
+  // v2: thresholds are in palm lengths. A calibrated v1 pinch threshold carries over through its reference hand size
+  // (release at the old fixed 1.25x); uncalibrated thresholds and the old y-offset extension bias have no equivalent.
+  (raw) => {
+    const { referenceHandSize, ...settings } = raw;
+    const oldPinch = settings.pinchThreshold;
+    const pinchThreshold = typeof referenceHandSize === 'number' && referenceHandSize > 0 && typeof oldPinch === 'number'
+      ? oldPinch / referenceHandSize
+      : null;
+    return {
+      ...settings,
+      pinchThreshold: pinchThreshold ?? DEFAULT_SETTINGS.pinchThreshold,
+      pinchReleaseThreshold: pinchThreshold !== null ? pinchThreshold * 1.25 : DEFAULT_SETTINGS.pinchReleaseThreshold,
+      extensionThreshold: DEFAULT_SETTINGS.extensionThreshold,
+    };
+  },
+];
+
+const ENUM_FIELDS: Partial<Record<keyof AppSettings, readonly string[]>> = {
+  cursorFilter: ['ema', 'oneEuro', 'kalman'],
+  activationMode: ['pinch', 'dwell'],
+  handMode: ['single', 'split', 'roles'],
+  pointerHand: ['left', 'right'],
+};
+
+// Fields that are missing or of the wrong type fall back to their defaults instead of failing the whole profile
+const normalizeSettings = (raw: unknown): AppSettings => {
+  const settings: AppSettings = { ...DEFAULT_SETTINGS };
+  if (isRecord(raw)) {
+    (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(field => {
+      const value = raw[field];
+      if (typeof value !== typeof DEFAULT_SETTINGS[field]) return;
+      if (typeof value === 'number' && !Number.isFinite(value)) return;
+      const options = ENUM_FIELDS[field];
+      if (options && !options.some(option => option === value)) return;
+      Object.assign(settings, { [field]: value }); // Same type as the default, checked above
+    });
+  }
+  return settings;
+};
+
+const migrateSettings = (settings: unknown, fromVersion: number): AppSettings => {
+  let migrated: RawSettings = isRecord(settings) ? settings : {};
+  for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+    migrated = MIGRATIONS[version - 1](migrated);
+  }
+  return normalizeSettings(migrated);
+};
+
+const migrateProfiles = (data: unknown): SettingsProfile[] => {
+  if (!isRecord(data) || !Array.isArray(data.profiles)) {
+    throw new Error('Not a settings profiles file');
+  }
+  const version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > SETTINGS_VERSION) {
+    throw new Error(`Unsupported settings version ${version} (expected 1 to ${SETTINGS_VERSION})`);
+  }
+  return data.profiles.flatMap((p: unknown) => isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string'
+    ? [{ id: p.id, name: p.name, settings: migrateSettings(p.settings, version) }]
+    : []);
+};
+
+const defaultStore = (): SettingsStore => ({
+  version: SETTINGS_VERSION,
+  activeProfileId: 'default',
+  profiles: [{ id: 'default', name: 'Default', settings: DEFAULT_SETTINGS }],
+});
+
+export const loadSettingsStore = (): SettingsStore => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved !== null) {
+      const profiles = migrateProfiles(saved);
+      if (profiles.length > 0) {
+        const active = profiles.find(p => isRecord(saved) && p.id === saved.activeProfileId) ?? profiles[0];
+        return { version: SETTINGS_VERSION, activeProfileId: active.id, profiles };
+      }
+    }
+  } catch (e) {
+    console.warn("Settings unreadable, using defaults", e);
+  }
+  return defaultStore();
+};
+
+export const saveSettingsStore = (store: SettingsStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn("Settings could not be saved", e);
+  }
+};
+
+export const activeProfile = (store: SettingsStore): SettingsProfile =>
+  store.profiles.find(p => p.id === store.activeProfileId) ?? store.profiles[0];
+
+export const updateActiveSettings = (store: SettingsStore, update: (settings: AppSettings) => AppSettings): SettingsStore => {
+  const active = activeProfile(store);
+  return {
+    ...store,
+    profiles: store.profiles.map(p => p === active ? { ...p, settings: update(p.settings) } : p),
+  };
+};
+
+export const createProfileId = (profiles: SettingsProfile[]) => {
+  let n = profiles.length + 1;
+  while (profiles.some(p => p.id === `profile-${n}`)) n++;
+  return `profile-${n}`;
+};
+
+// Adds a copy of the active profile and switches to it, so a new user starts from the current tuning
+export const addProfile = (store: SettingsStore, name: string): SettingsStore => {
+  const id = createProfileId(store.profiles);
+  return {
+    ...store,
+    activeProfileId: id,
+    profiles: [...store.profiles, { id, name, settings: activeProfile(store).settings }],
+  };
+};
+
+export const removeProfile = (store: SettingsStore, id: string): SettingsStore => {
+  if (store.profiles.length <= 1) return store;
+  const profiles = store.profiles.filter(p => p.id !== id);
+  const activeProfileId = profiles.some(p => p.id === store.activeProfileId) ? store.activeProfileId : profiles[0].id;
+  return { ...store, activeProfileId, profiles };
+};
+
+export const parseProfilesFile = (json: string): SettingsProfile[] => {
+  const profiles = migrateProfiles(JSON.parse(json));
+  if (profiles.length === 0) throw new Error('Settings file contains no profiles');
+  return profiles;
+};
+
+// Imported profiles are added alongside the existing ones; clashing ids are renumbered, the first import becomes active
+export const importProfiles = (store: SettingsStore, imported: SettingsProfile[]): SettingsStore => {
+  const profiles = [...store.profiles];
+  const added = imported.map(profile => {
+    const id = profiles.some(p => p.id === profile.id) ? createProfileId(profiles) : profile.id;
+    profiles.push({ ...profile, id });
+    return id;
+  });
+  return { ...store, activeProfileId: added[0] ?? store.activeProfileId, profiles };
+};
+
+export const downloadProfiles = (profiles: SettingsProfile[]) => {
+  const file: ProfilesFile = { version: SETTINGS_VERSION, exportedAt: new Date().toISOString(), profiles };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `airtype-profiles-${file.exportedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { Rect } from '../types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SwipeCandidate {
+  word: string;
+  score: number; // lower is better
+}
+
+export interface KeyCenters {
+  centers: Record<string, Point>;
+  keySize: number; // mean key width, used to normalize distances
+}
+
+// Points each path is resampled to before comparison
+const SAMPLE_COUNT = 32;
+// Start/end of the trace must be within this many key widths of the word's first/last letter
+const ENDPOINT_TOLERANCE = 1.5;
+// How strongly word frequency breaks ties between similar shapes
+const FREQUENCY_WEIGHT = 0.08;
+// Traces shorter than this (in key widths) are taps, not swipes
+const MIN_SWIPE_LENGTH = 1.2;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const pathLength = (path: Point[]) =>
+  path.slice(1).reduce((sum, p, i) => sum + distance(path[i], p), 0);
+
+// Resample a polyline to n evenly spaced points along its length
+export const resample = (path: Point[], n = SAMPLE_COUNT): Point[] => {
+  if (path.length === 0) return [];
+  const total = pathLength(path);
+  if (total === 0) return Array.from({ length: n }, () => ({ ...path[0] }));
+
+  const step = total / (n - 1);
+  const result: Point[] = [{ ...path[0] }];
+  let carried = 0;
+  for (let i = 1; i < path.length && result.length < n; i++) {
+    let prev = path[i - 1];
+    const next = path[i];
+    let segment = distance(prev, next);
+    while (carried + segment >= step && result.length < n) {
+      const t = (step - carried) / segment;
+      const point = { x: prev.x + (next.x - prev.x) * t, y: prev.y + (next.y - prev.y) * t };
+      result.push(point);
+      prev = point;
+      segment = distance(prev, next);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  while (result.length < n) result.push({ ...path[path.length - 1] });
+  return result;
+};
+
+// Centers of single-letter keys keyed by their lowercase value
+export const keyCentersFromRects = (keyRects: Record<string, Rect>, values: Record<string, string>): KeyCenters => {
+  const centers: Record<string, Point> = {};
+  const widths: number[] = [];
+  Object.entries(keyRects).forEach(([id, rect]) => {
+    const value = values[id]?.toLowerCase();
+    if (!value || value.length !== 1 || !/\p{L}/u.test(value)) return;
+    centers[value] = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    widths.push(rect.width);
+  });
+  const keySize = widths.length ? widths.reduce((a, b) => a + b, 0) / widths.length : 1;
+  return { centers, keySize };
+};
+
+export const isSwipe = (path: Point[], keySize: number) => pathLength(path) >= keySize * MIN_SWIPE_LENGTH;
+
+// The trace a perfect swipe of this word would draw, or null if a letter has no key
+const idealPath = (word: string, centers: Record<string, Point>): Point[] | null => {
+  const points: Point[] = [];
+  for (const char of word) {
+    const center = centers[char];
+    if (!center) return null;
+    const last = points[points.length - 1];
+    if (!last || last.x !== center.x || last.y !== center.y) points.push(center);
+  }
+  return points;
+};
+
+// Rank words by how closely their ideal trace matches the swiped path
+export const decodeSwipe = (
+  path: Point[],
+  { centers, keySize }: KeyCenters,
+  words: string[],
+  frequencies: Record<string, number> = {},
+  maxResults = 3
+): SwipeCandidate[] => {
+  if (path.length < 2 || keySize <= 0) return [];
+  const sampled = resample(path);
+  const start = sampled[0];
+  const end = sampled[sampled.length - 1];
+  const maxFrequency = Math.max(1, ...Object.values(frequencies));
+
+  const candidates: SwipeCandidate[] = [];
+  for (const word of words) {
+    if (word.length < 2) continue;
+    const ideal = idealPath(word, centers);
+    if (!ideal) continue;
+    // Cheap prefilter on the endpoints before the full comparison
+    if (distance(start, ideal[0]) > keySize * ENDPOINT_TOLERANCE) continue;
+    if (distance(end, ideal[ideal.length - 1]) > keySize * ENDPOINT_TOLERANCE) continue;
+
+    const target = resample(ideal);
+    const shape = sampled.reduce((sum, p, i) => sum + distance(p, target[i]), 0) / (SAMPLE_COUNT * keySize);
+    const frequency = Math.log(1 + (frequencies[word] ?? 0)) / Math.log(1 + maxFrequency);
+    candidates.push({ word, score: shape - frequency * FREQUENCY_WEIGHT });
+  }
+
+  return candidates.sort((a, b) => a.score - b.score).slice(0, maxResults);
+};
@@ -0,0 +1,125 @@
+import { Correction, PromptTemplate, TextAIProvider, TextAIRequest } from '../types';
+import { buildPrompt, COMPLETION_INSTRUCTION } from './promptTemplates';
+import { createAIRequestManager } from './aiRequestManager';
+import { abortError } from './providers/abort';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { diffWords } from './textDiff';
+
+export type TextAIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface TextAIConfig {
+  provider: TextAIProviderId;
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+// Safely access environment variables in browser environment (injected by vite.config.ts)
+const readEnv = (read: () => string | undefined) => {
+  try {
+    if (typeof process !== "undefined" && process.env) return read() ?? '';
+  } catch (e) {
+    console.warn("Error accessing process.env", e);
+  }
+  return '';
+};
+
+export const readTextAIConfig = (): TextAIConfig => {
+  const provider = readEnv(() => process.env.AI_PROVIDER);
+  return {
+    provider: provider === 'openai' || provider === 'mock' ? provider : 'gemini',
+    apiKey: readEnv(() => process.env.AI_API_KEY) || readEnv(() => process.env.API_KEY),
+    model: readEnv(() => process.env.AI_MODEL),
+    baseUrl: readEnv(() => process.env.AI_BASE_URL),
+  };
+};
+
+export const createTextAIProvider = ({ provider, apiKey, model, baseUrl }: TextAIConfig): TextAIProvider => {
+  switch (provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider({ baseUrl, model, apiKey });
+    case 'gemini':
+      return createGeminiProvider({ apiKey, model: model || DEFAULT_GEMINI_MODEL });
+  }
+};
+
+// A misconfigured provider must not take the app down: its AI keys fail with the config error instead
+const provider = ((): TextAIProvider => {
+  const config = readTextAIConfig();
+  try {
+    return createTextAIProvider(config);
+  } catch (error) {
+    console.error(`${config.provider} provider is misconfigured:`, error);
+    return { id: config.provider, generate: () => Promise.reject(error) };
+  }
+})();
+
+// The mock provider answers locally, the others are remote APIs
+export const aiRequiresNetwork = provider.id !== 'mock';
+
+// Every call goes through the manager: debounced, cancelled when superseded, cached and budgeted
+export const aiRequests = createAIRequestManager();
+
+// Request manager channel of ghost-text completions, which run behind the user's typing
+export const COMPLETION_CHANNEL = 'complete';
+
+// Rewritten text plus the word-level edits that turn the original into it.
+// Null when the request was superseded, aborted, throttled or failed; the manager reports which.
+export const rewriteText = async (template: PromptTemplate, text: string, signal?: AbortSignal): Promise<Correction | null> => {
+  const request = buildPrompt(template.instruction, text);
+  const ticket = await aiRequests.begin<string>('rewrite', `rewrite|${template.id}|${request.system}|${request.prompt}`, signal);
+  if (ticket.status === 'cancelled' || ticket.status === 'throttled') return null;
+
+  let corrected = text;
+  if (ticket.status === 'cached') {
+    corrected = ticket.value;
+  } else {
+    try {
+      corrected = await provider.generate({ task: 'rewrite', templateId: template.id, text, ...request, signal: ticket.signal }) || text;
+      ticket.finish(corrected);
+    } catch (error) {
+      ticket.fail(error);
+      if (!ticket.signal.aborted) console.error(`${provider.id} ${template.id} failed:`, error);
+      return null;
+    }
+    if (ticket.signal.aborted) return null;
+  }
+  return { original: text, corrected, edits: diffWords(text, corrected) };
+};
+
+// Completion chunks as they arrive; providers without streaming yield their whole answer at once.
+// Ends quietly when superseded, aborted, throttled or failed.
+export const streamCompletion = async function* (text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  const { system, prompt } = buildPrompt(COMPLETION_INSTRUCTION, text);
+  const ticket = await aiRequests.begin<string>(COMPLETION_CHANNEL, `complete||${system}|${prompt}`, signal);
+  if (ticket.status === 'cached' && ticket.value) yield ticket.value;
+  if (ticket.status !== 'go') return;
+
+  const request: TextAIRequest = { task: 'complete', text, system, prompt, maxOutputTokens: 20, signal: ticket.signal };
+  let completion = '';
+  let settled = false;
+  try {
+    if (provider.stream) {
+      for await (const chunk of provider.stream(request)) {
+        completion += chunk;
+        yield chunk;
+      }
+    } else {
+      completion = await provider.generate(request);
+      if (completion) yield completion;
+    }
+    settled = true;
+    ticket.finish(completion);
+  } catch (error) {
+    settled = true;
+    ticket.fail(error);
+    if (!ticket.signal.aborted) console.error(`${provider.id} autocomplete failed:`, error);
+  } finally {
+    // The consumer stopped reading early
+    if (!settled) ticket.fail(abortError());
+  }
+};
@@ -0,0 +1,100 @@
+import { TextBuffer, TextSegment } from '../types';
+
+const clampIndex = (text: string, index: number) => Math.min(text.length, Math.max(0, index));
+
+export const createBuffer = (text = ''): TextBuffer => ({ text, anchor: text.length, focus: text.length, segments: [] });
+
+// Selection as an ordered [start, end) range
+export const selectionRange = (buffer: TextBuffer): [number, number] =>
+  [Math.min(buffer.anchor, buffer.focus), Math.max(buffer.anchor, buffer.focus)];
+
+export const hasSelection = (buffer: TextBuffer) => buffer.anchor !== buffer.focus;
+
+export const setCaret = (buffer: TextBuffer, index: number): TextBuffer => {
+  const caret = clampIndex(buffer.text, index);
+  return { ...buffer, anchor: caret, focus: caret };
+};
+
+// Segments before the edit stay, segments after it shift, and segments the edit touches
+// grow or shrink to cover the replacement (a correction inside dictation stays dictated)
+const remapSegments = (segments: TextSegment[], start: number, end: number, insertLength: number): TextSegment[] => {
+  const delta = insertLength - (end - start);
+  return segments
+    .map(segment => {
+      if (segment.end <= start) return segment;
+      if (segment.start >= end) return { ...segment, start: segment.start + delta, end: segment.end + delta };
+      return { ...segment, start: Math.min(segment.start, start), end: Math.max(segment.end + delta, start + insertLength) };
+    })
+    .filter(segment => segment.end > segment.start);
+};
+
+// Replaces [start, end) and leaves the caret after the inserted text
+export const replaceRange = (buffer: TextBuffer, start: number, end: number, insert: string): TextBuffer => {
+  const text = buffer.text.slice(0, start) + insert + buffer.text.slice(end);
+  const caret = start + insert.length;
+  return { text, anchor: caret, focus: caret, segments: remapSegments(buffer.segments, start, end, insert.length) };
+};
+
+export const insertText = (buffer: TextBuffer, insert: string): TextBuffer => {
+  const [start, end] = selectionRange(buffer);
+  return replaceRange(buffer, start, end, insert);
+};
+
+// Inserts at the caret and marks the inserted text, merging with a segment it directly follows
+export const insertSegment = (buffer: TextBuffer, insert: string, source: TextSegment['source']): TextBuffer => {
+  const [start] = selectionRange(buffer);
+  const next = insertText(buffer, insert);
+  const end = start + insert.length;
+  if (next.segments.some(s => s.source === source && s.start <= start && s.end >= end)) return next;
+  const touching = next.segments.find(s => s.source === source && s.end === start);
+  const segments = touching
+    ? next.segments.map(s => s === touching ? { ...s, end } : s)
+    : [...next.segments, { start, end, source }].sort((a, b) => a.start - b.start);
+  return { ...next, segments };
+};
+
+export const deleteBackward = (buffer: TextBuffer): TextBuffer => {
+  const [start, end] = selectionRange(buffer);
+  if (start !== end) return replaceRange(buffer, start, end, '');
+  if (start === 0) return buffer;
+  return replaceRange(buffer, start - 1, start, '');
+};
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// Word jumps skip whitespace, then the word itself, like desktop Ctrl+Arrow
+const wordBoundaryLeft = (text: string, index: number) => {
+  let i = index;
+  while (i > 0 && isSpace(text[i - 1])) i--;
+  while (i > 0 && !isSpace(text[i - 1])) i--;
+  return i;
+};
+
+const wordBoundaryRight = (text: string, index: number) => {
+  let i = index;
+  while (i < text.length && isSpace(text[i])) i++;
+  while (i < text.length && !isSpace(text[i])) i++;
+  return i;
+};
+
+export const moveCaret = (
+  buffer: TextBuffer,
+  direction: 'left' | 'right',
+  unit: 'char' | 'word',
+  extendSelection = false
+): TextBuffer => {
+  // Without extending, an arrow first collapses the selection to the edge it points at
+  if (!extendSelection && hasSelection(buffer) && unit === 'char') {
+    const [start, end] = selectionRange(buffer);
+    return setCaret(buffer, direction === 'left' ? start : end);
+  }
+
+  let focus: number;
+  if (unit === 'word') {
+    focus = direction === 'left' ? wordBoundaryLeft(buffer.text, buffer.focus) : wordBoundaryRight(buffer.text, buffer.focus);
+  } else {
+    focus = clampIndex(buffer.text, buffer.focus + (direction === 'left' ? -1 : 1));
+  }
+
+  return extendSelection ? { ...buffer, focus } : setCaret(buffer, focus);
+};
@@ -0,0 +1,81 @@
+import { Correction, TextEdit } from '../types';
+
+// Above this many token pairs the whole text is treated as one change instead of diffing
+const MAX_DIFF_CELLS = 250_000;
+
+// Words and the whitespace between them, so spacing changes are edits too
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Word-level diff via longest common subsequence; adjacent removals/additions merge into one edit
+export const diffWords = (original: string, corrected: string): TextEdit[] => {
+  if (original === corrected) return [];
+  const a = tokenize(original);
+  const b = tokenize(corrected);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ id: 0, start: 0, end: original.length, original, replacement: corrected }];
+  }
+
+  // lcs[i][j] = common tokens between a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const edits: TextEdit[] = [];
+  let current: TextEdit | null = null;
+  let offset = 0;
+  const flush = () => {
+    if (current) edits.push(current);
+    current = null;
+  };
+  const open = () => current ?? (current = { id: edits.length, start: offset, end: offset, original: '', replacement: '' });
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      offset += a[i].length;
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      open().replacement += b[j++];
+    } else {
+      const edit = open();
+      edit.original += a[i];
+      offset += a[i++].length;
+      edit.end = offset;
+    }
+  }
+  flush();
+  return edits;
+};
+
+// Original text with only the accepted edits applied
+export const applyEdits = (original: string, edits: TextEdit[], accepted: (edit: TextEdit) => boolean) => {
+  let result = '';
+  let cursor = 0;
+  for (const edit of [...edits].sort((x, y) => x.start - y.start)) {
+    if (!accepted(edit)) continue;
+    result += original.slice(cursor, edit.start) + edit.replacement;
+    cursor = edit.end;
+  }
+  return result + original.slice(cursor);
+};
+
+// One reviewable correction spanning several separately corrected ranges of `text`, in order
+export const combineCorrections = (text: string, parts: { start: number; correction: Correction }[]) => {
+  const start = parts[0].start;
+  const last = parts[parts.length - 1];
+  const original = text.slice(start, last.start + last.correction.original.length);
+  const edits = parts
+    .flatMap(part => part.correction.edits.map(edit => ({
+      ...edit,
+      start: edit.start + part.start - start,
+      end: edit.end + part.start - start,
+    })))
+    .map((edit, id) => ({ ...edit, id }));
+  return { start, correction: { original, corrected: applyEdits(original, edits, () => true), edits } };
+};
@@ -0,0 +1,84 @@
+import { TextBuffer } from '../types';
+
+// Consecutive edits of the same kind merge into one undo step
+export type HistoryGroup = 'typing' | 'delete';
+
+// Edits further apart than this start a new step even within a group
+const GROUP_TIMEOUT_MS = 5000;
+const MAX_HISTORY = 200;
+
+export interface TextHistory {
+  past: TextBuffer[];
+  present: TextBuffer;
+  future: TextBuffer[];
+  openGroup: HistoryGroup | null; // Group the latest step can still absorb edits into
+  lastEditAt: number;
+}
+
+export interface EditOptions {
+  group?: HistoryGroup;
+  closeGroup?: boolean; // e.g. a space ends the word being typed
+  now?: number;
+}
+
+export const createHistory = (present: TextBuffer): TextHistory => ({
+  past: [],
+  present,
+  future: [],
+  openGroup: null,
+  lastEditAt: 0,
+});
+
+export const recordEdit = (
+  history: TextHistory,
+  next: TextBuffer,
+  { group, closeGroup = false, now = Date.now() }: EditOptions = {}
+): TextHistory => {
+  // Caret-only changes are not undo steps
+  if (next.text === history.present.text) return setPresent(history, next);
+
+  const merges = group !== undefined
+    && history.openGroup === group
+    && now - history.lastEditAt < GROUP_TIMEOUT_MS
+    && history.past.length > 0;
+
+  return {
+    past: merges ? history.past : [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    openGroup: closeGroup ? null : group ?? null,
+    lastEditAt: now,
+  };
+};
+
+// Replace the present without recording a step (caret moves, selections)
+export const setPresent = (history: TextHistory, next: TextBuffer): TextHistory => ({
+  ...history,
+  present: next,
+  openGroup: null,
+});
+
+export const canUndo = (history: TextHistory) => history.past.length > 0;
+export const canRedo = (history: TextHistory) => history.future.length > 0;
+
+export const undo = (history: TextHistory): TextHistory => {
+  if (!canUndo(history)) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    openGroup: null,
+    lastEditAt: history.lastEditAt,
+  };
+};
+
+export const redo = (history: TextHistory): TextHistory => {
+  if (!canRedo(history)) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    openGroup: null,
+    lastEditAt: history.lastEditAt,
+  };
+};
@@ -0,0 +1,76 @@
+import type { Hands as HandsSolution, Results } from '@mediapipe/hands';
+import { HandTracker } from '../../types';
+
+// Self-hosted copy of the @mediapipe/hands package, see vite.config.ts
+const HANDS_BASE_PATH = '/mediapipe/hands';
+
+// hands.js is a closure-compiled script rather than an ES module; loaded with a script tag, it defines a global
+let loadingScript: Promise<void> | null = null;
+const loadHandsScript = () => loadingScript ??= new Promise<void>((resolve, reject) => {
+  const script = document.createElement('script');
+  script.src = `${HANDS_BASE_PATH}/hands.js`;
+  script.onload = () => resolve();
+  script.onerror = () => {
+    loadingScript = null;
+    script.remove();
+    reject(new Error('Failed to load hands.js'));
+  };
+  document.head.appendChild(script);
+});
+
+// The original MediaPipe Hands solution, running inference on the main thread
+export const createLegacyHandsTracker = (): HandTracker => {
+  let hands: HandsSolution | null = null;
+  let animationFrameId = 0;
+
+  const stop = () => {
+    cancelAnimationFrame(animationFrameId);
+    hands?.close();
+    hands = null;
+  };
+
+  return {
+    id: 'legacy',
+    usesCamera: true,
+    overlay: null,
+    start: async ({ video, maxHands, onFrame }) => {
+      await loadHandsScript();
+      const Hands = (window as unknown as { Hands?: typeof HandsSolution }).Hands;
+      if (!Hands) throw new Error('hands.js did not define Hands');
+
+      const solution = new Hands({ locateFile: (file) => `${HANDS_BASE_PATH}/${file}` });
+      hands = solution;
+      solution.setOptions({
+        maxNumHands: maxHands,
+        modelComplexity: 1,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+      });
+
+      // Results arrive during send(), so each frame reports the previous send's duration
+      let lastSendMs: number | null = null;
+      solution.onResults((results: Results) => onFrame({
+        multiHandLandmarks: results.multiHandLandmarks ?? [],
+        multiHandedness: results.multiHandedness ?? [],
+        image: results.image,
+        inferenceMs: lastSendMs,
+      }));
+      // Loads the model now, so a broken install fails start() instead of every frame
+      await solution.initialize();
+
+      // stop() may land while a frame or the initialization is in flight
+      const isStopped = () => hands !== solution;
+      const processFrame = async () => {
+        if (video.readyState >= 2) {
+          const started = performance.now();
+          await solution.send({ image: video });
+          lastSendMs = performance.now() - started;
+        }
+        if (!isStopped()) animationFrameId = requestAnimationFrame(processFrame);
+      };
+      if (!isStopped()) processFrame();
+    },
+    setMaxHands: (maxHands) => hands?.setOptions({ maxNumHands: maxHands }),
+    stop,
+  };
+};
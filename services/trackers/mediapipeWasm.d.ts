@@ -0,0 +1,5 @@
+// The tasks-vision wasm glue as an ES module, see vite.config.ts
+declare module '@mediapipe/tasks-vision/wasm/*' {
+  const ModuleFactory: unknown;
+  export default ModuleFactory;
+}
@@ -0,0 +1,123 @@
+import { HandLandmark, HandSide, HandTracker } from '../../types';
+
+// A scripted, camera-free backend for tests and demos. Each keyframe places the index fingertip;
+// positions are interpolated between keyframes, pinch and visibility hold until the next one.
+export interface SyntheticKeyframe {
+  at: number; // ms from the start of the script
+  x: number; // Index fingertip in the mirrored view the cursor uses, 0..1 across the screen
+  y: number;
+  pinch?: boolean;
+  visible?: boolean; // false = no hand in frame
+}
+
+export interface SyntheticTrackerOptions {
+  script?: SyntheticKeyframe[];
+  hand?: HandSide;
+  fps?: number;
+  loop?: boolean;
+}
+
+// Wrist to middle MCP in normalized image units, about a hand at arm's length
+const PALM_SIZE = 0.12;
+
+// Upright open hand, offsets from the wrist in palm lengths (image y grows downwards).
+// Proportions keep every finger well past the default extension threshold.
+const OPEN_HAND: [number, number][] = [
+  [0, 0], // Wrist
+  [0.25, -0.2], [0.45, -0.4], [0.6, -0.6], [0.7, -0.8], // Thumb
+  [0.25, -0.95], [0.25, -1.35], [0.25, -1.6], [0.25, -1.8], // Index
+  [0, -1], [0, -1.45], [0, -1.72], [0, -1.95], // Middle
+  [-0.2, -0.95], [-0.2, -1.35], [-0.2, -1.6], [-0.2, -1.8], // Ring
+  [-0.4, -0.85], [-0.4, -1.15], [-0.4, -1.35], [-0.4, -1.5], // Pinky
+];
+const INDEX_TIP = 8;
+const THUMB_TIP = 4;
+// Thumb tip offset from the index tip while pinching, in palm lengths
+const PINCH_GAP = 0.1;
+
+// Sweeps along the keyboard rows pinching on a few keys, then leaves the frame briefly
+export const DEFAULT_SYNTHETIC_SCRIPT: SyntheticKeyframe[] = [
+  { at: 0, x: 0.3, y: 0.7 },
+  { at: 800, x: 0.3, y: 0.7, pinch: true },
+  { at: 1000, x: 0.3, y: 0.7 },
+  { at: 2000, x: 0.5, y: 0.78 },
+  { at: 2800, x: 0.5, y: 0.78, pinch: true },
+  { at: 3000, x: 0.5, y: 0.78 },
+  { at: 4000, x: 0.7, y: 0.85 },
+  { at: 4800, x: 0.7, y: 0.85, pinch: true },
+  { at: 5000, x: 0.7, y: 0.85 },
+  { at: 6000, x: 0.3, y: 0.7, visible: false },
+  { at: 6500, x: 0.3, y: 0.7 },
+];
+
+// Landmarks of a hand whose index fingertip is at (x, y) in the mirrored view
+export const syntheticHand = (x: number, y: number, pinch = false): HandLandmark[] => {
+  const [tipX, tipY] = OPEN_HAND[INDEX_TIP];
+  // The camera image is not mirrored, the cursor flips x back
+  const wristX = 1 - x - tipX * PALM_SIZE;
+  const wristY = y - tipY * PALM_SIZE;
+  const landmarks = OPEN_HAND.map(([dx, dy]) => ({ x: wristX + dx * PALM_SIZE, y: wristY + dy * PALM_SIZE, z: 0 }));
+  if (pinch) {
+    const tip = landmarks[INDEX_TIP];
+    landmarks[THUMB_TIP] = { x: tip.x + PINCH_GAP * PALM_SIZE, y: tip.y, z: 0 };
+  }
+  return landmarks;
+};
+
+// Pose at `t` ms into the script; null while the hand is out of frame
+export const syntheticPoseAt = (script: SyntheticKeyframe[], t: number) => {
+  let index = script.length - 1;
+  while (index > 0 && script[index].at > t) index--;
+  const from = script[index];
+  if (!from || from.visible === false) return null;
+  const to = script[index + 1];
+  const progress = to && to.at > from.at ? Math.min(1, Math.max(0, (t - from.at) / (to.at - from.at))) : 0;
+  return {
+    x: from.x + (to ? (to.x - from.x) * progress : 0),
+    y: from.y + (to ? (to.y - from.y) * progress : 0),
+    pinch: from.pinch ?? false,
+  };
+};
+
+export const createSyntheticTracker = ({
+  script = DEFAULT_SYNTHETIC_SCRIPT,
+  hand = 'right',
+  fps = 30,
+  loop = true,
+}: SyntheticTrackerOptions = {}): HandTracker => {
+  let interval: ReturnType<typeof setInterval> | null = null;
+  const duration = script.length ? script[script.length - 1].at : 0;
+  // MediaPipe labels hands as seen in a mirrored image (see handRoles.ts)
+  const label = hand === 'right' ? 'Left' : 'Right';
+
+  const stop = () => {
+    if (interval !== null) clearInterval(interval);
+    interval = null;
+  };
+
+  return {
+    id: 'synthetic',
+    usesCamera: false,
+    overlay: null,
+    start: async ({ onFrame }) => {
+      stop();
+      const startedAt = performance.now();
+      interval = setInterval(() => {
+        const elapsed = performance.now() - startedAt;
+        if (!loop && elapsed > duration) {
+          stop();
+          return;
+        }
+        const pose = syntheticPoseAt(script, loop && duration > 0 ? elapsed % duration : elapsed);
+        onFrame({
+          multiHandLandmarks: pose ? [syntheticHand(pose.x, pose.y, pose.pinch)] : [],
+          multiHandedness: pose ? [{ label, score: 1 }] : [],
+          image: null,
+          inferenceMs: null,
+        });
+      }, 1000 / fps);
+    },
+    setMaxHands: () => {},
+    stop,
+  };
+};
@@ -0,0 +1,134 @@
+import { HandTracker, HandTrackingFrame, OverlayHand } from '../../types';
+
+// Self-hosted: see vite.config.ts and scripts/fetch-models.mjs
+const TASKS_VISION_WASM_PATH = '/mediapipe/tasks-vision/wasm';
+const HAND_MODEL_PATH = '/models/hand_landmarker.task';
+
+export type TrackingResults = Pick<HandTrackingFrame, 'multiHandLandmarks' | 'multiHandedness'>;
+
+// --- Messages between the page and tasksVisionWorker.ts ---
+
+export type WorkerRequest =
+  | { type: 'init'; wasmUrl: string; modelUrl: string; maxHands: number }
+  | { type: 'canvas'; canvas: OffscreenCanvas }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'frame'; image: ImageBitmap; timestamp: number }
+  | { type: 'draw'; hands: OverlayHand[] } // Replayed frames: draw only, no inference
+  | { type: 'roles'; assist: boolean[] } // Per detected hand, applied from the next drawn frame
+  | { type: 'options'; maxHands: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'results'; results: TrackingResults; inferenceMs: number }
+  | { type: 'error'; message: string };
+
+export const isWorkerTrackingSupported = () =>
+  typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && typeof createImageBitmap === 'function'
+  && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// MediaPipe Tasks HandLandmarker in a worker: the page only grabs video frames and receives landmarks.
+// start() resolves once the model is loaded; the canvas is handed to the worker only then, so a failed
+// start (no GPU, missing model file) leaves it usable for a main-thread fallback.
+export const createTasksVisionTracker = (): HandTracker => {
+  let worker: Worker | null = null;
+  let animationFrameId = 0;
+  let lastRoles = '';
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => worker?.postMessage(request, transfer);
+
+  const stop = () => {
+    cancelAnimationFrame(animationFrameId);
+    worker?.terminate();
+    worker = null;
+  };
+
+  const start: HandTracker['start'] = ({ video, canvas, maxHands, onFrame, signal }) => new Promise((resolve, reject) => {
+    if (!isWorkerTrackingSupported()) {
+      reject(new Error('Workers with OffscreenCanvas are not supported'));
+      return;
+    }
+    worker = new Worker(new URL('./tasksVisionWorker.ts', import.meta.url), { type: 'module' });
+    let busy = false;
+    let started = false;
+
+    // One frame in flight at a time: if inference is slower than the camera, frames are skipped rather than queued
+    const pump = async () => {
+      animationFrameId = requestAnimationFrame(pump);
+      if (busy || video.readyState < 2) return;
+      busy = true;
+      try {
+        const image = await createImageBitmap(video);
+        post({ type: 'frame', image, timestamp: performance.now() }, [image]);
+      } catch (err) {
+        busy = false;
+      }
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'ready') {
+        // A canvas can be handed to one worker only: leave it to the caller's next tracker if this one is
+        // no longer wanted, and fail rather than hang if another tracker already took it
+        let offscreen: OffscreenCanvas;
+        try {
+          if (signal?.aborted) throw new Error('Hand tracking start was cancelled');
+          offscreen = canvas.transferControlToOffscreen();
+        } catch (err) {
+          stop();
+          reject(err);
+          return;
+        }
+        started = true;
+        post({ type: 'canvas', canvas: offscreen }, [offscreen]);
+        pump();
+        resolve();
+      } else if (message.type === 'results') {
+        busy = false;
+        onFrame({ ...message.results, image: null, inferenceMs: message.inferenceMs, overlayDrawn: true });
+      } else if (!started) {
+        stop();
+        reject(new Error(message.message));
+      } else {
+        busy = false;
+        console.warn("Hand tracking worker error", message.message);
+      }
+    };
+    worker.onerror = (event) => {
+      if (started) {
+        console.warn("Hand tracking worker error", event.message);
+        return;
+      }
+      stop();
+      reject(new Error(event.message || 'Hand tracking worker failed to start'));
+    };
+
+    // Absolute URLs: the worker resolves relative ones against its own script location
+    post({
+      type: 'init',
+      wasmUrl: new URL(TASKS_VISION_WASM_PATH, location.href).href,
+      modelUrl: new URL(HAND_MODEL_PATH, location.href).href,
+      maxHands,
+    });
+  });
+
+  return {
+    id: 'tasks-vision',
+    usesCamera: true,
+    overlay: {
+      draw: (hands) => post({ type: 'draw', hands }),
+      setRoles: (assist) => {
+        // Only changes are sent, roles are stable for most frames
+        const key = assist.join();
+        if (key === lastRoles) return;
+        lastRoles = key;
+        post({ type: 'roles', assist });
+      },
+      resize: (width, height) => post({ type: 'resize', width, height }),
+    },
+    start,
+    setMaxHands: (maxHands) => post({ type: 'options', maxHands }),
+    stop,
+  };
+};
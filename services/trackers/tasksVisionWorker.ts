@@ -0,0 +1,109 @@
+// Worker entry: MediaPipe hand landmarker plus the overlay drawing, off the main thread.
+// Started by tasksVisionTracker.ts, which documents the message protocol.
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { OverlayHand } from '../../types';
+import { drawHandOverlay } from '../handOverlay';
+import { TrackingResults, WorkerRequest, WorkerResponse } from './tasksVisionTracker';
+
+// The worker global, typed by hand because the project is compiled against the DOM lib
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+  ModuleFactory?: unknown;
+};
+
+// tasks-vision loads its wasm glue with importScripts, which throws in module workers. vite.config.ts
+// turns the glue into an ES module instead, imported here; with ModuleFactory already set and no loader
+// path, tasks-vision uses it as is. No eval, so this works under a CSP without 'unsafe-eval'.
+const loadWasmGlue = async () => {
+  const simd = await FilesetResolver.isSimdSupported();
+  const glue = simd
+    ? await import('@mediapipe/tasks-vision/wasm/vision_wasm_internal.js')
+    : await import('@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.js');
+  return { factory: glue.default, binary: simd ? 'vision_wasm_internal.wasm' : 'vision_wasm_nosimd_internal.wasm' };
+};
+
+let landmarker: HandLandmarker | null = null;
+let overlay: OffscreenCanvasRenderingContext2D | null = null;
+let assistRoles: boolean[] = [];
+
+const createLandmarker = async (request: Extract<WorkerRequest, { type: 'init' }>) => {
+  const { factory, binary } = await loadWasmGlue();
+  const fileset = { wasmLoaderPath: '', wasmBinaryPath: `${request.wasmUrl}/${binary}` };
+  const create = (delegate: 'GPU' | 'CPU') => {
+    // tasks-vision clears ModuleFactory once it has used it
+    scope.ModuleFactory = factory;
+    return HandLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: request.modelUrl, delegate },
+      runningMode: 'VIDEO',
+      numHands: request.maxHands,
+      minHandDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+  };
+  // WebGL in workers is not available everywhere, the CPU delegate always is
+  try {
+    return await create('GPU');
+  } catch (err) {
+    console.warn("GPU delegate unavailable in worker, using CPU", err);
+    return create('CPU');
+  }
+};
+
+const draw = (image: ImageBitmap | null, hands: OverlayHand[]) => {
+  if (overlay) drawHandOverlay(overlay, image, hands);
+};
+
+const track = (tracker: HandLandmarker, image: ImageBitmap, timestamp: number) => {
+  const started = performance.now();
+  const result = tracker.detectForVideo(image, timestamp);
+  const inferenceMs = performance.now() - started;
+
+  const results: TrackingResults = {
+    multiHandLandmarks: result.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+    multiHandedness: result.handedness.map(categories => ({
+      label: categories[0]?.categoryName ?? '',
+      score: categories[0]?.score ?? 0,
+    })),
+  };
+  draw(image, results.multiHandLandmarks.map((landmarks, i) => ({ landmarks, assist: assistRoles[i] ?? false })));
+  image.close();
+  scope.postMessage({ type: 'results', results, inferenceMs });
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'init':
+        landmarker = await createLandmarker(request);
+        scope.postMessage({ type: 'ready' });
+        break;
+      case 'canvas':
+        overlay = request.canvas.getContext('2d');
+        break;
+      case 'resize':
+        if (overlay) {
+          overlay.canvas.width = request.width;
+          overlay.canvas.height = request.height;
+        }
+        break;
+      case 'frame':
+        if (landmarker) track(landmarker, request.image, request.timestamp);
+        else request.image.close();
+        break;
+      case 'draw':
+        draw(null, request.hands);
+        break;
+      case 'roles':
+        assistRoles = request.assist;
+        break;
+      case 'options':
+        await landmarker?.setOptions({ numHands: request.maxHands });
+        break;
+    }
+  } catch (err) {
+    if (request.type === 'frame') request.image.close();
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
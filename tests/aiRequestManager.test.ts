@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIRequestEvent, AIRequestManager, AIRequestTicket, createAIRequestManager } from '../services/aiRequestManager';
+import { abortError } from '../services/providers/abort';
+
+// A manager on fake timers with its events recorded
+const createManager = (options: { debounceMs?: number; budgetPerMinute?: number } = {}) => {
+  vi.useFakeTimers();
+  const manager = createAIRequestManager({ debounceMs: 100, ...options });
+  const events: AIRequestEvent[] = [];
+  manager.subscribe(event => events.push(event));
+  return { manager, events };
+};
+
+// Asks for a slot and waits out the debounce
+const begin = async (manager: AIRequestManager, key: string, channel = 'rewrite'): Promise<AIRequestTicket<string>> => {
+  const ticket = manager.begin<string>(channel, key);
+  await vi.runAllTimersAsync();
+  return ticket;
+};
+
+describe('AI request manager on fake timers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces requests within the debounce window into the last one', async () => {
+    const { manager, events } = createManager();
+    const first = manager.begin<string>('rewrite', 'a');
+    await vi.advanceTimersByTimeAsync(50);
+    const second = manager.begin<string>('rewrite', 'ab');
+    await vi.advanceTimersByTimeAsync(50);
+    const third = manager.begin<string>('rewrite', 'abc');
+    await vi.advanceTimersByTimeAsync(99);
+    expect(events.some(e => e.type === 'started')).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await first).status).toBe('cancelled');
+    expect((await second).status).toBe('cancelled');
+    expect((await third).status).toBe('go');
+    expect(events.map(e => e.type)).toEqual(['cancelled', 'cancelled', 'started']);
+    expect(events[0]).toEqual({ type: 'cancelled', channel: 'rewrite', reason: 'superseded' });
+  });
+
+  it('keeps channels apart', async () => {
+    const { manager } = createManager();
+    const rewrite = manager.begin<string>('rewrite', 'text');
+    const complete = manager.begin<string>('complete', 'text');
+    await vi.runAllTimersAsync();
+    expect((await rewrite).status).toBe('go');
+    expect((await complete).status).toBe('go');
+    expect(manager.pendingCount()).toBe(2);
+  });
+
+  it('aborts the request in flight when a newer one starts, and drops its late answer', async () => {
+    const { manager, events } = createManager();
+    const old = await begin(manager, 'old');
+    const next = await begin(manager, 'new');
+    if (old.status !== 'go' || next.status !== 'go') throw new Error('expected both to go');
+
+    expect(old.signal.aborted).toBe(true);
+    expect(next.signal.aborted).toBe(false);
+    old.fail(abortError());
+    expect(events.at(-1)).toEqual({ type: 'cancelled', channel: 'rewrite', reason: 'superseded' });
+
+    // The old answer arriving anyway is not cached
+    old.finish('stale');
+    expect((await begin(manager, 'old')).status).toBe('go');
+  });
+
+  it('answers a repeated request from the cache without waiting or counting it', async () => {
+    const { manager, events } = createManager({ budgetPerMinute: 1 });
+    const ticket = await begin(manager, 'text');
+    if (ticket.status !== 'go') throw new Error('expected go');
+    ticket.finish('answer');
+    events.length = 0;
+
+    // No timers run: a hit skips the debounce, and the spent budget doesn't apply
+    await expect(manager.begin<string>('rewrite', 'text')).resolves.toEqual({ status: 'cached', value: 'answer' });
+    expect(events).toEqual([{ type: 'cached', channel: 'rewrite' }]);
+    expect(manager.pendingCount()).toBe(0);
+  });
+
+  it('caches by the whole key and per channel', async () => {
+    const { manager } = createManager({ budgetPerMinute: 10 });
+    const ticket = await begin(manager, 'rewrite|fix|system|text');
+    if (ticket.status === 'go') ticket.finish('answer');
+
+    expect((await begin(manager, 'rewrite|formal|system|text')).status).toBe('go');
+    expect((await begin(manager, 'rewrite|fix|system|text', 'complete')).status).toBe('go');
+  });
+
+  it('throttles at the per-minute budget until the oldest request leaves the window', async () => {
+    const { manager, events } = createManager({ budgetPerMinute: 2 });
+    expect((await begin(manager, 'a')).status).toBe('go');
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect((await begin(manager, 'b')).status).toBe('go');
+
+    // 'a' was sent 100 ms in, 'b' at 10.2 s, 'c' reaches the budget check at 10.3 s
+    expect(await begin(manager, 'c')).toEqual({ status: 'throttled', retryInMs: 49_800 });
+    expect(events.at(-1)).toEqual({ type: 'throttled', channel: 'rewrite', retryInMs: 49_800 });
+
+    await vi.advanceTimersByTimeAsync(49_800);
+    expect((await begin(manager, 'c')).status).toBe('go');
+  });
+
+  it('applies a new budget to the next request', async () => {
+    const { manager } = createManager({ budgetPerMinute: 1 });
+    await begin(manager, 'a');
+    expect((await begin(manager, 'b')).status).toBe('throttled');
+    manager.setBudget(2);
+    expect((await begin(manager, 'b')).status).toBe('go');
+  });
+});
+
+
+describe('AI request manager', () => {
+  it('cancels a request whose signal is already aborted without touching the one in flight', async () => {
+    const manager = createAIRequestManager({ debounceMs: 0 });
+    const events: AIRequestEvent[] = [];
+    manager.subscribe(event => events.push(event));
+
+    const running = await manager.begin<string>('rewrite', 'first');
+    const caller = new AbortController();
+    caller.abort();
+    const ticket = await manager.begin<string>('rewrite', 'second', caller.signal);
+
+    expect(ticket.status).toBe('cancelled');
+    expect(running.status === 'go' && running.signal.aborted).toBe(false);
+    expect(events.at(-1)).toEqual({ type: 'cancelled', channel: 'rewrite', reason: 'aborted' });
+  });
+
+  it("removes its listener from the caller's signal once the request settles", async () => {
+    const manager = createAIRequestManager({ debounceMs: 0 });
+    const caller = new AbortController();
+    const add = vi.spyOn(caller.signal, 'addEventListener');
+    const remove = vi.spyOn(caller.signal, 'removeEventListener');
+
+    const ticket = await manager.begin<string>('rewrite', 'text', caller.signal);
+    expect(ticket.status).toBe('go');
+    if (ticket.status === 'go') ticket.finish('done');
+    await manager.begin<string>('rewrite', 'text', caller.signal); // Cached
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(add.mock.calls.map(([, listener]) => listener));
+  });
+
+  it("still follows the caller's signal while the request is in flight", async () => {
+    const manager = createAIRequestManager({ debounceMs: 0 });
+    const caller = new AbortController();
+    const ticket = await manager.begin<string>('rewrite', 'text', caller.signal);
+    caller.abort();
+    expect(ticket.status === 'go' && ticket.signal.aborted).toBe(true);
+  });
+});
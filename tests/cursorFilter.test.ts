@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCursorFilter } from '../services/cursorFilter';
+import { DEFAULT_SETTINGS } from '../services/settingsStore';
+import { CursorFilterKind } from '../types';
+import { loadFixture } from './loadFixture';
+
+const SESSIONS = ['cursor-trace.json', 'typing-session.json'];
+
+// Upper bounds without prediction: jitter in normalized screen units, lag in ms.
+// Unfiltered, the fixtures jitter by about 0.003.
+const BOUNDS: Record<CursorFilterKind, { jitter: number; lagMs: number }> = {
+  ema: { jitter: 0.0035, lagMs: 60 },
+  oneEuro: { jitter: 0.0012, lagMs: 25 },
+  kalman: { jitter: 0.0025, lagMs: 10 },
+};
+// Lag left with prediction on
+const PREDICTED_LAG_MS: Record<CursorFilterKind, number> = { ema: 15, oneEuro: 10, kalman: 5 };
+
+const evaluate = (session: string, cursorFilter: CursorFilterKind, cursorPredictionMs = 0) =>
+  evaluateCursorFilter(loadFixture(session), { ...DEFAULT_SETTINGS, cursorFilter, cursorPredictionMs });
+
+describe.each(Object.keys(BOUNDS) as CursorFilterKind[])('%s filter', kind => {
+  it.each(SESSIONS)('stays within its jitter and lag bounds on %s', session => {
+    const { jitter, lagMs } = evaluate(session, kind);
+    expect(jitter).toBeLessThan(BOUNDS[kind].jitter);
+    expect(lagMs).toBeLessThan(BOUNDS[kind].lagMs);
+  });
+
+  it.each(SESSIONS)('cuts lag without adding jitter when predicting on %s', session => {
+    const plain = evaluate(session, kind);
+    for (const predictionMs of [50, 100]) {
+      const predicted = evaluate(session, kind, predictionMs);
+      expect(predicted.jitter).toBeLessThanOrEqual(plain.jitter! * 1.05);
+      expect(predicted.lagMs).toBeLessThan(plain.lagMs!);
+      expect(predicted.lagMs).toBeLessThan(PREDICTED_LAG_MS[kind]);
+    }
+  });
+});
+
+describe('evaluateCursorFilter', () => {
+  it('reports no lag for a session without moving frames', () => {
+    const report = evaluate('pinch.json', 'oneEuro');
+    expect(report.lagMs).toBeNull();
+    expect(report.jitter).toBeGreaterThan(0);
+  });
+});
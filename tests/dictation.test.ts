@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockRecognizer, createRecognizer, insertDictated } from '../services/dictation';
+import { createBuffer, setCaret } from '../services/textBuffer';
+import { TextBuffer } from '../types';
+
+// Runs a recognizer to its end, inserting each final phrase the way App's toggleDictation does
+const dictate = (buffer: TextBuffer, phrases: string[]) => {
+  vi.useFakeTimers();
+  const partials: string[] = [];
+  let ended = false;
+  createMockRecognizer(phrases, 100).start({
+    onPartial: partial => partials.push(partial),
+    onFinal: transcript => { buffer = insertDictated(buffer, transcript); },
+    onError: message => { throw new Error(message); },
+    onEnd: () => { ended = true; },
+  });
+  vi.runAllTimers();
+  return { buffer, partials, ended };
+};
+
+describe('dictation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('inserts each mock transcript at the caret as a dictation segment', () => {
+    const start = setCaret(createBuffer('Hello world'), 5);
+    const { buffer, partials, ended } = dictate(start, ['there my', 'friend']);
+
+    expect(buffer.text).toBe('Hello there my friend world');
+    expect(buffer.focus).toBe(21);
+    expect(buffer.segments).toEqual([
+      { start: 6, end: 14, source: 'dictation' },
+      { start: 15, end: 21, source: 'dictation' },
+    ]);
+    expect(partials).toEqual(['there', '', '']);
+    expect(ended).toBe(true);
+  });
+
+  it('does not add a space after whitespace or at the start', () => {
+    expect(insertDictated(createBuffer('Hi '), 'there').text).toBe('Hi there');
+    expect(insertDictated(createBuffer(), 'hi').segments).toEqual([{ start: 0, end: 2, source: 'dictation' }]);
+  });
+
+  it('stops without inserting more when stopped early', () => {
+    vi.useFakeTimers();
+    const finals: string[] = [];
+    const onEnd = vi.fn();
+    const recognizer = createMockRecognizer(['one two three'], 100);
+    recognizer.start({ onPartial: () => {}, onFinal: t => finals.push(t), onError: () => {}, onEnd });
+    vi.advanceTimersByTime(150);
+    recognizer.stop();
+    vi.runAllTimers();
+    expect(finals).toEqual([]);
+    expect(onEnd).toHaveBeenCalledOnce();
+  });
+
+  it('picks the mock recognizer with ?dictation=mock', () => {
+    vi.stubGlobal('window', { location: { search: '?dictation=mock' } });
+    expect(createRecognizer()?.id).toBe('mock');
+  });
+});
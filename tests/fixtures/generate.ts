@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { HandLandmark, LandmarkFrame, LandmarkSession } from '../../types';
+import { SESSION_VERSION } from '../../services/sessionRecorder';
+
+// Writes the landmark fixtures the tests replay: `npm run fixtures`. Tests import only its types.
+// The fixtures are synthetic, not camera recordings: hands posed from the same proportions as the synthetic
+// tracker, plus seeded per-landmark noise at about the level MediaPipe shows on a steady hand, saved in the
+// recorder's session format. `segments` names frame ranges so tests can assert on parts of a session
+// without hard-coding indices.
+
+export interface FixtureSegment {
+  name: string;
+  from: number; // First frame index
+  to: number; // Last frame index, inclusive
+}
+
+export interface LandmarkFixture extends LandmarkSession {
+  segments: FixtureSegment[];
+}
+
+const FRAME_MS = 1000 / 30;
+const PALM_SIZE = 0.12;
+// Standard deviation of the per-coordinate noise, in normalized image units
+const NOISE = 0.0015;
+
+type Finger = 'index' | 'middle' | 'ring' | 'pinky';
+
+export interface HandPose {
+  x: number; // Index fingertip of the open hand in the mirrored view the cursor uses
+  y: number;
+  curled?: Finger[];
+  pinch?: number; // Thumb tip to index tip in palm lengths; omitted = relaxed thumb
+}
+
+// Upright open hand, offsets from the wrist in palm lengths (see syntheticTracker.ts)
+const OPEN_HAND: [number, number][] = [
+  [0, 0],
+  [0.25, -0.2], [0.45, -0.4], [0.6, -0.6], [0.7, -0.8],
+  [0.25, -0.95], [0.25, -1.35], [0.25, -1.6], [0.25, -1.8],
+  [0, -1], [0, -1.45], [0, -1.72], [0, -1.95],
+  [-0.2, -0.95], [-0.2, -1.35], [-0.2, -1.6], [-0.2, -1.8],
+  [-0.4, -0.85], [-0.4, -1.15], [-0.4, -1.35], [-0.4, -1.5],
+];
+const FINGER_MCP: Record<Finger, number> = { index: 5, middle: 9, ring: 13, pinky: 17 };
+// PIP, DIP and tip folded back towards the palm, offsets from the MCP
+const CURLED: [number, number][] = [[0, -0.35], [0.02, -0.25], [0.02, -0.1]];
+const INDEX_TIP = 8;
+const THUMB_TIP = 4;
+
+// mulberry32, so regenerating gives byte-identical files
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createNoise = (seed: number) => {
+  const random = createRandom(seed);
+  // Box-Muller
+  return () => Math.sqrt(-2 * Math.log(random() || 1e-9)) * Math.cos(2 * Math.PI * random()) * NOISE;
+};
+
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+const poseLandmarks = (pose: HandPose, noise: () => number = () => 0): HandLandmark[] => {
+  const offsets = OPEN_HAND.map(([dx, dy]) => [dx, dy]);
+  for (const finger of pose.curled ?? []) {
+    const mcp = FINGER_MCP[finger];
+    CURLED.forEach(([dx, dy], i) => {
+      offsets[mcp + 1 + i] = [offsets[mcp][0] + dx, offsets[mcp][1] + dy];
+    });
+  }
+  if (pose.pinch !== undefined) {
+    const [tipX, tipY] = offsets[INDEX_TIP];
+    offsets[THUMB_TIP] = [tipX + pose.pinch, tipY];
+  }
+  // The camera image is not mirrored, the cursor flips x back
+  const [openTipX, openTipY] = OPEN_HAND[INDEX_TIP];
+  const wristX = 1 - pose.x - openTipX * PALM_SIZE;
+  const wristY = pose.y - openTipY * PALM_SIZE;
+  return offsets.map(([dx, dy]) => ({
+    x: round(wristX + dx * PALM_SIZE + noise()),
+    y: round(wristY + dy * PALM_SIZE + noise()),
+    z: round(noise()),
+  }));
+};
+
+// Builds a one-hand recording from named runs of poses, one pose per frame
+const buildFixture = (seed: number, segments: [string, HandPose[]][]): LandmarkFixture => {
+  const noise = createNoise(seed);
+  const frames: LandmarkFrame[] = [];
+  const named: FixtureSegment[] = [];
+  for (const [name, poses] of segments) {
+    named.push({ name, from: frames.length, to: frames.length + poses.length - 1 });
+    for (const pose of poses) {
+      frames.push({
+        t: Math.round(frames.length * FRAME_MS),
+        multiHandLandmarks: [poseLandmarks(pose, noise)],
+        multiHandedness: [{ label: 'Left', score: 0.98 }],
+      });
+    }
+  }
+  return { version: SESSION_VERSION, recordedAt: '2025-01-01T00:00:00.000Z', frames, segments: named };
+};
+
+const hold = (pose: HandPose, frames: number): HandPose[] => Array.from({ length: frames }, () => pose);
+
+// Poses whose pinch goes linearly from `from` to `to`, ends included
+const pinchRamp = (pose: HandPose, from: number, to: number, frames: number): HandPose[] =>
+  Array.from({ length: frames }, (_, i) => ({ ...pose, pinch: from + ((to - from) * i) / (frames - 1) }));
+
+// Pinch swinging between `low` and `high`, about one cycle every 8 frames
+const pinchFlutter = (pose: HandPose, low: number, high: number, frames: number): HandPose[] =>
+  Array.from({ length: frames }, (_, i) => ({ ...pose, pinch: low + ((high - low) * (1 + Math.sin(i * 0.8))) / 2 }));
+
+// Open hand gliding from one fingertip position to another, easing in and out
+const glide = (from: HandPose, to: HandPose, frames: number): HandPose[] =>
+  Array.from({ length: frames }, (_, i) => {
+    const progress = (1 - Math.cos((Math.PI * (i + 1)) / frames)) / 2;
+    return { x: from.x + (to.x - from.x) * progress, y: from.y + (to.y - from.y) * progress };
+  });
+
+// A quick pinch and release at `pose`
+const tap = (pose: HandPose): HandPose[] => [
+  ...pinchRamp(pose, 1, 0.15, 4),
+  ...hold({ ...pose, pinch: 0.15 }, 4),
+  ...pinchRamp(pose, 0.15, 1, 4),
+];
+
+// Centre of the i-th key on a 10-key row spanning the screen at y 0.6..0.7 (the row used by the tests)
+const rowKey = (i: number): HandPose => ({ x: (i + 0.5) / 10, y: 0.65 });
+
+// Types the keys at the given row positions: glide over, settle, tap
+const typing = (keys: number[]): [string, HandPose[]][] => {
+  let at: HandPose = { x: 0.5, y: 0.4 };
+  const segments: [string, HandPose[]][] = [['settle', hold(at, 6)]];
+  keys.forEach((key, i) => {
+    const target = rowKey(key);
+    segments.push([`glide-${i}`, glide(at, target, 12)], [`aim-${i}`, hold(target, 6)], [`tap-${i}`, tap(target)]);
+    at = target;
+  });
+  return segments;
+};
+
+const CENTER: HandPose = { x: 0.5, y: 0.5 };
+
+const FIXTURES: Record<string, () => LandmarkFixture> = {
+  // Open hand pinching slowly shut, fluttering between the enter and release gaps, then opening again
+  'pinch.json': () => buildFixture(1, [
+    ['open', hold(CENTER, 10)],
+    ['closing', pinchRamp(CENTER, 1, 0.15, 15)],
+    ['pinched', hold({ ...CENTER, pinch: 0.15 }, 10)],
+    ['flutter-pinched', pinchFlutter(CENTER, 0.34, 0.41, 20)],
+    ['opening', pinchRamp(CENTER, 0.45, 1, 15)],
+    ['flutter-open', pinchFlutter(CENTER, 0.34, 0.41, 20)],
+  ]),
+  // Every pose the engine tells apart, with a one-frame pinch glitch in the middle of an open hand
+  'poses.json': () => buildFixture(2, [
+    ['open', hold(CENTER, 10)],
+    ['glitch', hold({ ...CENTER, pinch: 0.1 }, 1)],
+    ['open-again', hold(CENTER, 5)],
+    ['two-finger', hold({ ...CENTER, curled: ['ring', 'pinky'] }, 10)],
+    ['fist', hold({ ...CENTER, curled: ['index', 'middle', 'ring', 'pinky'] }, 10)],
+    ['pinky', hold({ ...CENTER, curled: ['index', 'middle', 'ring'] }, 15)],
+    ['open-after-undo', hold(CENTER, 5)],
+    ['horns', hold({ ...CENTER, curled: ['middle', 'ring'] }, 15)],
+    ['open-after-redo', hold(CENTER, 5)],
+  ]),
+  // Pointing: still, a fast sweep across the screen, still, a slower sweep back, still
+  'cursor-trace.json': () => buildFixture(4, [
+    ['still-start', hold({ x: 0.2, y: 0.6 }, 30)],
+    ['fast-sweep', glide({ x: 0.2, y: 0.6 }, { x: 0.8, y: 0.7 }, 15)],
+    ['still-middle', hold({ x: 0.8, y: 0.7 }, 30)],
+    ['slow-sweep', glide({ x: 0.8, y: 0.7 }, { x: 0.3, y: 0.5 }, 40)],
+    ['still-end', hold({ x: 0.3, y: 0.5 }, 30)],
+  ]),
+  // Ghost-text gestures above the keyboard and the same motions over it (keyboard top at y 0.55 in the tests)
+  'ghost-gestures.json': () => buildFixture(5, [
+    ['rest-above', hold({ x: 0.3, y: 0.3 }, 10)],
+    ['flick-above', glide({ x: 0.3, y: 0.3 }, { x: 0.7, y: 0.32 }, 6)],
+    ['aim-above', hold({ x: 0.7, y: 0.32 }, 20)],
+    ['drift-above', glide({ x: 0.7, y: 0.32 }, { x: 0.5, y: 0.25 }, 10)],
+    ['palm-hold-above', hold({ x: 0.5, y: 0.25 }, 50)],
+    ['fist-above', hold({ x: 0.5, y: 0.25, curled: ['index', 'middle', 'ring', 'pinky'] }, 50)],
+    ['drop-to-keys', glide({ x: 0.5, y: 0.25 }, { x: 0.3, y: 0.75 }, 15)],
+    ['rest-on-keys', hold({ x: 0.3, y: 0.75 }, 10)],
+    ['flick-on-keys', glide({ x: 0.3, y: 0.75 }, { x: 0.7, y: 0.77 }, 6)],
+    ['palm-hold-on-keys', hold({ x: 0.7, y: 0.77 }, 50)],
+  ]),
+  // Types "type" on the QWERTYUIOP row
+  'typing-session.json': () => buildFixture(3, typing([4, 5, 9, 2])),
+};
+
+const dir = path.dirname(fileURLToPath(import.meta.url));
+for (const [name, build] of Object.entries(FIXTURES)) {
+  fs.writeFileSync(path.join(dir, name), JSON.stringify(build()) + '\n');
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createGestureEngine, pinchRatio } from '../services/gestureEngine';
+import { DEFAULT_SETTINGS } from '../services/settingsStore';
+import { GestureResult } from '../types';
+import { loadFixture, segment } from './loadFixture';
+
+const settings = {
+  pinchThreshold: DEFAULT_SETTINGS.pinchThreshold,
+  pinchReleaseThreshold: DEFAULT_SETTINGS.pinchReleaseThreshold,
+  extensionThreshold: DEFAULT_SETTINGS.extensionThreshold,
+};
+
+const run = (name: string) => {
+  const fixture = loadFixture(name);
+  const engine = createGestureEngine();
+  const results: GestureResult[] = fixture.frames.map(frame => engine.process(frame.multiHandLandmarks[0], settings));
+  const ratios = fixture.frames.map(frame => pinchRatio(frame.multiHandLandmarks[0]));
+  const range = (segmentName: string) => {
+    const { from, to } = segment(fixture, segmentName);
+    return results.slice(from, to + 1);
+  };
+  return { fixture, results, ratios, range };
+};
+
+describe('pinch hysteresis', () => {
+  const { results, ratios, range } = run('pinch.json');
+
+  it('enters only below the pinch threshold and releases only past the release threshold', () => {
+    results.forEach((result, i) => {
+      const wasPinching = i > 0 && results[i - 1].isPinching;
+      if (result.isPinching && !wasPinching) expect(ratios[i]).toBeLessThan(settings.pinchThreshold);
+      if (!result.isPinching && wasPinching) expect(ratios[i]).toBeGreaterThanOrEqual(settings.pinchReleaseThreshold);
+    });
+  });
+
+  it('holds its state while the gap flutters between the two thresholds', () => {
+    expect(range('flutter-pinched').every(r => r.isPinching)).toBe(true);
+    expect(range('flutter-open').every(r => !r.isPinching)).toBe(true);
+  });
+
+  it('clicks once for the whole pinch', () => {
+    const changes = results.filter((r, i) => i > 0 && r.isPinching !== results[i - 1].isPinching);
+    expect(changes.map(r => r.isPinching)).toEqual([true, false]);
+    expect(range('pinched').every(r => r.mode === 'click')).toBe(true);
+    expect(range('flutter-open').every(r => r.mode === 'move')).toBe(true);
+  });
+});
+
+describe('modes', () => {
+  const { range } = run('poses.json');
+
+  it('needs two frames of a new mode before reporting it', () => {
+    const open = range('open');
+    expect(open[0].mode).toBe('wait');
+    expect(open.slice(1).every(r => r.mode === 'move')).toBe(true);
+    const twoFinger = range('two-finger');
+    expect(twoFinger[0].mode).toBe('move');
+    expect(twoFinger.slice(1).every(r => r.mode === 'click')).toBe(true);
+  });
+
+  it('ignores a single-frame pinch', () => {
+    expect(range('glitch')[0].isPinching).toBe(true);
+    expect([...range('glitch'), ...range('open-again')].every(r => r.mode === 'move')).toBe(true);
+  });
+
+  it('reports move, click and wait for an open hand, two fingers and a fist', () => {
+    expect(range('open-again').every(r => r.isOpenHand && r.extendedCount === 4)).toBe(true);
+    expect(range('two-finger').every(r => r.isTwoFinger)).toBe(true);
+    expect(range('fist').slice(1).every(r => r.mode === 'wait' && r.extendedCount === 0)).toBe(true);
+  });
+});
+
+describe('command poses', () => {
+  const { results, range } = run('poses.json');
+
+  it('fires undo once, after holding the pinky alone for nine frames', () => {
+    expect(range('pinky').map(r => r.command)).toEqual([...Array(8).fill(null), 'undo', ...Array(6).fill(null)]);
+  });
+
+  it('fires redo once, after holding index and pinky for nine frames', () => {
+    expect(range('horns').map(r => r.command)).toEqual([...Array(8).fill(null), 'redo', ...Array(6).fill(null)]);
+  });
+
+  it('fires nothing for any other pose', () => {
+    expect(results.filter(r => r.command).map(r => r.command)).toEqual(['undo', 'redo']);
+  });
+});
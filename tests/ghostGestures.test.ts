@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createGestureEngine, LANDMARKS } from '../services/gestureEngine';
+import { createGhostGestureDetector, GhostGesture } from '../services/ghostGestures';
+import { DEFAULT_SETTINGS } from '../services/settingsStore';
+import { loadFixture, segment } from './loadFixture';
+
+// Normalized y of the keyboard's top edge the fixtures were posed against
+const KEYBOARD_TOP = 0.55;
+
+// Ghost gestures per frame, fed the way App's onResults does for the pointer hand
+const detect = (name: string) => {
+  const fixture = loadFixture(name);
+  const engine = createGestureEngine();
+  const detector = createGhostGestureDetector();
+  const gestures = fixture.frames.map(frame => {
+    const landmarks = frame.multiHandLandmarks[0];
+    const gesture = engine.process(landmarks, DEFAULT_SETTINGS);
+    return detector.update(landmarks, gesture, frame.t, landmarks[LANDMARKS.INDEX_TIP].y >= KEYBOARD_TOP);
+  });
+  const fired = (segmentName: string) => {
+    const { from, to } = segment(fixture, segmentName);
+    return gestures.slice(from, to + 1).filter((g): g is GhostGesture => g !== null);
+  };
+  return { gestures, fired };
+};
+
+describe('ghost gestures', () => {
+  const { gestures, fired } = detect('ghost-gestures.json');
+
+  it('accepts a swipe right above the keyboard', () => {
+    expect(fired('flick-above')).toEqual(['accept']);
+  });
+
+  it('ignores the same swipe over the keyboard', () => {
+    expect(fired('flick-on-keys')).toEqual([]);
+  });
+
+  it('does not dismiss for a short aim above the keys', () => {
+    expect(fired('aim-above')).toEqual([]);
+  });
+
+  it('dismisses once for an open palm held still above the keyboard', () => {
+    expect(fired('palm-hold-above')).toEqual(['dismiss']);
+  });
+
+  it('ignores the same palm hold over the keyboard', () => {
+    expect(fired('palm-hold-on-keys')).toEqual([]);
+  });
+
+  it('ignores a closed fist, the assist hand\'s Shift pose', () => {
+    expect(fired('fist-above')).toEqual([]);
+  });
+
+  it('fires nothing else', () => {
+    expect(gestures.filter(Boolean)).toEqual(['accept', 'dismiss']);
+  });
+
+  it('fires nothing while typing', () => {
+    // The typing fixture's row sits at y 0.6..0.7
+    expect(detect('typing-session.json').gestures.filter(Boolean)).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createKeyTargeter } from '../services/keyTargeting';
+
+const rectAt = (left: number, top: number, width = 100, height = 100) => {
+  const rect = { left, top, right: left + width, bottom: top + height, x: left, y: top, width, height };
+  return { ...rect, toJSON: () => rect } as DOMRect;
+};
+
+// Two 100 px keys side by side, a third one row down past a 40 px gap
+const rects = { a: rectAt(0, 0), b: rectAt(100, 0), c: rectAt(0, 140) };
+
+describe('key targeting', () => {
+  it('picks the key under the point', () => {
+    expect(createKeyTargeter().update({ x: 50, y: 50 }, rects)).toBe('a');
+    expect(createKeyTargeter().update({ x: 150, y: 20 }, rects)).toBe('b');
+  });
+
+  it('snaps a point in a gap to a key within a third of a key height', () => {
+    expect(createKeyTargeter().update({ x: 50, y: 110 }, rects)).toBe('a');
+    expect(createKeyTargeter().update({ x: 50, y: 130 }, rects)).toBe('c');
+    expect(createKeyTargeter().update({ x: 250, y: 50 }, rects)).toBeNull();
+    expect(createKeyTargeter().update({ x: 50, y: -40 }, rects)).toBeNull();
+  });
+
+  it('keeps the hovered key across small moves over the edge, both ways', () => {
+    const targeter = createKeyTargeter();
+    expect(targeter.update({ x: 90, y: 50 }, rects)).toBe('a');
+    expect(targeter.update({ x: 110, y: 50 }, rects)).toBe('a');
+    expect(targeter.update({ x: 131, y: 50 }, rects)).toBe('b');
+    expect(targeter.update({ x: 90, y: 50 }, rects)).toBe('b');
+    expect(targeter.update({ x: 69, y: 50 }, rects)).toBe('a');
+  });
+
+  it('forgets the hovered key on reset', () => {
+    const targeter = createKeyTargeter();
+    targeter.update({ x: 90, y: 50 }, rects);
+    targeter.reset();
+    expect(targeter.update({ x: 110, y: 50 }, rects)).toBe('b');
+  });
+
+  it('grows likely letters near their edges only', () => {
+    expect(createKeyTargeter().update({ x: 105, y: 50 }, rects)).toBe('b');
+    expect(createKeyTargeter().update({ x: 105, y: 50 }, rects, { a: 1 })).toBe('a');
+    expect(createKeyTargeter().update({ x: 115, y: 50 }, rects, { a: 0.4 })).toBe('b');
+    expect(createKeyTargeter().update({ x: 150, y: 50 }, rects, { a: 1 })).toBe('b');
+  });
+
+  it('ignores keys that are not laid out', () => {
+    expect(createKeyTargeter().update({ x: 90, y: 50 }, { ...rects, a: rectAt(0, 0, 100, 0) })).toBe('b');
+  });
+});
@@ -0,0 +1,15 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { FixtureSegment, LandmarkFixture } from './fixtures/generate';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const loadFixture = (name: string): LandmarkFixture =>
+  JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8'));
+
+export const segment = (fixture: LandmarkFixture, name: string): FixtureSegment => {
+  const found = fixture.segments.find(s => s.name === name);
+  if (!found) throw new Error(`No segment "${name}" in fixture`);
+  return found;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createPredictor, predictionContext, tokenize } from '../services/predictor';
+
+// In-memory localStorage stand-in
+const createStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return { getItem: (key: string) => items.get(key) ?? null, setItem: (key: string, value: string) => { items.set(key, value); } };
+};
+
+// Finishes each phrase's last word, as App does when a space is typed after it
+const learnAll = (predictor: ReturnType<typeof createPredictor>, phrases: string[]) =>
+  phrases.forEach(phrase => predictor.learn(phrase));
+
+describe('predictor', () => {
+  describe('context', () => {
+    it('splits words, keeping apostrophes and lowering case', () => {
+      expect(tokenize("Don't STOP, me-now")).toEqual(["don't", 'stop', 'me', 'now']);
+    });
+
+    it('finds the partial word at the caret and the word before it', () => {
+      expect(predictionContext('see you la')).toEqual({ previous: 'you', prefix: 'la' });
+      expect(predictionContext('see you ')).toEqual({ previous: 'you', prefix: '' });
+      expect(predictionContext('')).toEqual({ previous: null, prefix: '' });
+    });
+
+    it('drops the previous word across a sentence end', () => {
+      expect(predictionContext('Done. Th')).toEqual({ previous: null, prefix: 'Th' });
+      expect(predictionContext('Really? ')).toEqual({ previous: null, prefix: '' });
+    });
+  });
+
+  describe('predict', () => {
+    it('completes the prefix with dictionary words, most frequent first', () => {
+      const predictions = createPredictor().predict('th');
+      expect(predictions).toHaveLength(3);
+      expect(predictions[0]).toBe('the');
+      predictions.forEach(word => expect(word.startsWith('th')).toBe(true));
+    });
+
+    it('never offers the word already typed and matches its capital', () => {
+      const predictions = createPredictor().predict('The', 5);
+      expect(predictions).not.toContain('The');
+      predictions.forEach(word => expect(word.startsWith('The')).toBe(true));
+    });
+
+    it('ranks learned words over the dictionary', () => {
+      const predictor = createPredictor();
+      learnAll(predictor, ['quokka', 'quokka']);
+      expect(predictor.predict('qu')[0]).toBe('quokka');
+    });
+
+    it('uses the word before the caret to break ties between learned words', () => {
+      const predictor = createPredictor();
+      learnAll(predictor, ['nice quokka', 'nice quokka', 'happy quolls', 'happy quolls']);
+      expect(predictor.predict('nice quo', 2)).toEqual(['quokka', 'quolls']);
+      expect(predictor.predict('happy quo', 2)).toEqual(['quolls', 'quokka']);
+    });
+  });
+
+  describe('learn', () => {
+    it('counts the finished word and the pair it ends, ignoring trailing punctuation', () => {
+      const predictor = createPredictor();
+      predictor.learn('I like tea, ');
+      predictor.learn('I like tea. ');
+      expect(predictor.model().unigrams).toEqual({ tea: 2 });
+      expect(predictor.model().bigrams).toEqual({ like: { tea: 2 } });
+    });
+
+    it('saves the model and picks it up again', () => {
+      const storage = createStorage();
+      learnAll(createPredictor(storage), ['nice quokka']);
+      expect(createPredictor(storage).model().bigrams).toEqual({ nice: { quokka: 1 } });
+    });
+
+    it('starts fresh from an unreadable or outdated model', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(createPredictor(createStorage({ airtype_predictor: '{oops' })).model().unigrams).toEqual({});
+      const outdated = JSON.stringify({ version: 0, unigrams: { old: 1 }, bigrams: {} });
+      expect(createPredictor(createStorage({ airtype_predictor: outdated })).model().unigrams).toEqual({});
+    });
+
+    it('prunes the least used words past 2000', () => {
+      const predictor = createPredictor();
+      learnAll(predictor, ['keep', 'keep']);
+      // 2000 distinct letter-only words: 0 -> "xa", 27 -> "xbb"
+      const spell = (n: number) => [...n.toString(26)].map(digit => String.fromCharCode(97 + parseInt(digit, 26))).join('');
+      for (let i = 0; i < 2000; i++) predictor.learn(`x${spell(i)} `);
+      expect(Object.keys(predictor.model().unigrams)).toHaveLength(2000);
+      expect(predictor.model().unigrams.keep).toBe(2);
+    });
+  });
+
+  describe('nextLetters', () => {
+    it('gives a probability per next letter, led by the learned continuation', () => {
+      const predictor = createPredictor();
+      learnAll(predictor, ['nice quokka', 'nice quokka']);
+      const letters = predictor.nextLetters('nice quo');
+      const total = Object.values(letters).reduce((a, b) => a + b, 0);
+      expect(total).toBeCloseTo(1);
+      expect(Object.entries(letters).sort((a, b) => b[1] - a[1])[0][0]).toBe('k');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { createSessionRecorder, parseSession, SESSION_VERSION } from '../services/sessionRecorder';
+
+const landmark = { x: 0.5, y: 0.5, z: 0 };
+
+describe('session files', () => {
+  it('round-trips a recording, keeping only the replayed fields', () => {
+    let time = 1000;
+    const recorder = createSessionRecorder(() => time);
+    recorder.record({ multiHandLandmarks: [[landmark]] }); // Not recording yet
+    recorder.start();
+    time = 1033.4;
+    // MediaPipe results carry extra fields
+    const tracked = { ...landmark, visibility: 0.9 };
+    const handedness = { label: 'Left', score: 0.98, index: 0 };
+    recorder.record({ multiHandLandmarks: [[tracked]], multiHandedness: [handedness] });
+    const session = recorder.stop();
+
+    expect(parseSession(JSON.stringify(session))).toEqual({
+      version: SESSION_VERSION,
+      recordedAt: session.recordedAt,
+      frames: [{ t: 33, multiHandLandmarks: [[landmark]], multiHandedness: [{ label: 'Left', score: 0.98 }] }],
+    });
+  });
+
+  it('reads the test fixtures as sessions', () => {
+    const dir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+    for (const name of fs.readdirSync(dir).filter(file => file.endsWith('.json'))) {
+      expect(parseSession(fs.readFileSync(path.join(dir, name), 'utf8')).frames.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('rejects other files and names the first bad frame', () => {
+    const session = (frames: unknown) => JSON.stringify({ version: SESSION_VERSION, recordedAt: '', frames });
+    expect(() => parseSession('null')).toThrow(/Unsupported session file/);
+    expect(() => parseSession(JSON.stringify({ version: 99, frames: [] }))).toThrow(/Unsupported session file/);
+    expect(() => parseSession(session([{ t: 0, multiHandLandmarks: [] }, null]))).toThrow('Invalid session frame at index 1');
+    expect(() => parseSession(session([{ t: 0, multiHandLandmarks: [[{ x: 0, y: '1', z: 0 }]] }])))
+      .toThrow('Invalid session frame at index 0');
+  });
+});
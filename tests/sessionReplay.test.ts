@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createCursorFilter } from '../services/cursorFilter';
+import { createGestureEngine, LANDMARKS } from '../services/gestureEngine';
+import { createKeyTargeter } from '../services/keyTargeting';
+import { replaySessionSync } from '../services/sessionReplay';
+import { DEFAULT_SETTINGS } from '../services/settingsStore';
+import { loadFixture } from './loadFixture';
+
+// A 1000x1000 screen with one QWERTYUIOP row at y 600..700, the row the fixture types on
+const SCREEN = 1000;
+const ROW = 'qwertyuiop';
+const rects = Object.fromEntries([...ROW].map((key, i) => {
+  const left = i * 100;
+  const rect = { left, right: left + 100, top: 600, bottom: 700, x: left, y: 600, width: 100, height: 100 };
+  return [key, { ...rect, toJSON: () => rect } as DOMRect];
+}));
+
+// The pointer-hand path of App's onResults: the cursor follows an open hand and is parked while clicking,
+// and a key is pressed on the frame the click starts
+const typeSession = (name: string) => {
+  const engine = createGestureEngine();
+  const cursorFilter = createCursorFilter();
+  const targeter = createKeyTargeter();
+  let cursor: { x: number; y: number } | null = null;
+  let wasClicking = false;
+  const pressed: string[] = [];
+
+  replaySessionSync(loadFixture(name), frame => {
+    const landmarks = frame.multiHandLandmarks[0];
+    if (!landmarks) return;
+    const gesture = engine.process(landmarks, DEFAULT_SETTINGS);
+    const tip = landmarks[LANDMARKS.INDEX_TIP];
+    if (gesture.mode === 'move') {
+      const filtered = cursorFilter.update({ x: 1 - tip.x, y: tip.y }, frame.t, DEFAULT_SETTINGS);
+      cursor = { x: filtered.x * SCREEN, y: filtered.y * SCREEN };
+    }
+    const hovered = cursor ? targeter.update(cursor, rects) : null;
+    const clicking = gesture.mode === 'click';
+    if (clicking && !wasClicking && hovered) pressed.push(hovered);
+    wasClicking = clicking;
+  });
+  return pressed;
+};
+
+describe('session replay', () => {
+  it('types the keys the session taps', () => {
+    expect(typeSession('typing-session.json').join('')).toBe('type');
+  });
+});
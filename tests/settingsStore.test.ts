@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, parseProfilesFile, SETTINGS_VERSION } from '../services/settingsStore';
+
+const file = (version: number, profiles: unknown) => JSON.stringify({ version, exportedAt: '', profiles });
+
+describe('parseProfilesFile', () => {
+  it('rejects files that are not profile exports or come from an unknown version', () => {
+    expect(() => parseProfilesFile('[]')).toThrow('Not a settings profiles file');
+    expect(() => parseProfilesFile('null')).toThrow('Not a settings profiles file');
+    expect(() => parseProfilesFile(file(SETTINGS_VERSION + 1, []))).toThrow(/Unsupported settings version/);
+    expect(() => parseProfilesFile(file(SETTINGS_VERSION, []))).toThrow('Settings file contains no profiles');
+  });
+
+  it('drops malformed profiles and defaults malformed fields', () => {
+    const profiles = parseProfilesFile(file(SETTINGS_VERSION, [
+      null,
+      { id: 7, name: 'No id' },
+      { id: 'a', name: 'Ada', settings: { dwellTimeMs: 500, cursorFilter: 'laser', cursorSmoothing: 'high', pinchThreshold: null } },
+      { id: 'b', name: 'Bo' },
+    ]));
+    expect(profiles.map(p => p.id)).toEqual(['a', 'b']);
+    expect(profiles[0].settings).toEqual({ ...DEFAULT_SETTINGS, dwellTimeMs: 500 });
+    expect(profiles[1].settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('migrates a calibrated v1 pinch threshold through its reference hand size', () => {
+    const [calibrated, uncalibrated] = parseProfilesFile(file(1, [
+      { id: 'a', name: 'Calibrated', settings: { pinchThreshold: 0.06, referenceHandSize: 0.2, extensionThreshold: 0.02 } },
+      { id: 'b', name: 'Uncalibrated', settings: { pinchThreshold: 0.06 } },
+    ]));
+    expect(calibrated.settings.pinchThreshold).toBeCloseTo(0.3);
+    expect(calibrated.settings.pinchReleaseThreshold).toBeCloseTo(0.375);
+    expect(calibrated.settings.extensionThreshold).toBe(DEFAULT_SETTINGS.extensionThreshold);
+    expect(uncalibrated.settings).toEqual(DEFAULT_SETTINGS);
+    expect('referenceHandSize' in calibrated.settings).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSwipe, isSwipe, keyCentersFromRects, Point, resample } from '../services/swipeDecoder';
+import { Rect } from '../types';
+
+// QWERTY letter keys 40 px wide, rows staggered like the on-screen keyboard
+const KEY = 40;
+const ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+const rects: Record<string, Rect> = {};
+const values: Record<string, string> = {};
+ROWS.forEach((row, r) => [...row].forEach((letter, i) => {
+  rects[`key-${letter}`] = { left: (i + r * 0.5) * KEY, top: r * KEY, width: KEY, height: KEY };
+  values[`key-${letter}`] = letter.toUpperCase();
+}));
+const keys = keyCentersFromRects(rects, values);
+
+// A hand-drawn swipe: straight through each letter's key, off centre and with wobble along the way
+const swipe = (word: string, offset: Point = { x: 6, y: -5 }): Point[] => {
+  const corners = [...word].map(letter => keys.centers[letter]);
+  return corners.flatMap((corner, i) => {
+    const next = corners[i + 1];
+    if (!next) return [{ x: corner.x + offset.x, y: corner.y + offset.y }];
+    return Array.from({ length: 8 }, (_, step) => ({
+      x: corner.x + (next.x - corner.x) * (step / 8) + offset.x,
+      y: corner.y + (next.y - corner.y) * (step / 8) + offset.y + Math.sin(step) * 3,
+    }));
+  });
+};
+
+const WORDS = ['the', 'tie', 'toe', 'that', 'this', 'pool', 'pol', 'hello', 'help', 'a'];
+
+describe('swipe decoder', () => {
+  describe('resample', () => {
+    it('spaces points evenly along the path, keeping both ends', () => {
+      const points = resample([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 20 }], 7);
+      expect(points).toHaveLength(7);
+      points.forEach((p, i) => {
+        const travelled = i * 5;
+        const expected = travelled <= 10 ? { x: travelled, y: 0 } : { x: 10, y: travelled - 10 };
+        expect(p.x).toBeCloseTo(expected.x);
+        expect(p.y).toBeCloseTo(expected.y);
+      });
+    });
+
+    it('handles empty and zero-length paths', () => {
+      expect(resample([])).toEqual([]);
+      expect(resample([{ x: 3, y: 4 }, { x: 3, y: 4 }], 4)).toEqual(Array.from({ length: 4 }, () => ({ x: 3, y: 4 })));
+    });
+  });
+
+  describe('keyCentersFromRects', () => {
+    it('keeps single letters only, keyed in lower case', () => {
+      const { centers, keySize } = keyCentersFromRects(
+        { ...rects, space: { left: 0, top: 120, width: 200, height: KEY }, one: { left: 0, top: -40, width: KEY, height: KEY } },
+        { ...values, space: ' ', one: '1' },
+      );
+      expect(Object.keys(centers).sort().join('')).toBe('abcdefghijklmnopqrstuvwxyz');
+      expect(centers.q).toEqual({ x: 20, y: 20 });
+      expect(keySize).toBe(KEY);
+    });
+  });
+
+  it('tells swipes from taps by path length', () => {
+    expect(isSwipe([{ x: 0, y: 0 }, { x: 40, y: 0 }], KEY)).toBe(false);
+    expect(isSwipe([{ x: 0, y: 0 }, { x: 50, y: 0 }], KEY)).toBe(true);
+  });
+
+  describe('decodeSwipe', () => {
+    it('ranks the swiped word first', () => {
+      for (const word of ['the', 'this', 'hello', 'help']) {
+        expect(decodeSwipe(swipe(word), keys, WORDS)[0].word).toBe(word);
+      }
+    });
+
+    it('only considers words starting and ending near the trace ends', () => {
+      const words = decodeSwipe(swipe('the'), keys, WORDS, {}, 10).map(c => c.word);
+      expect(words).toContain('tie');
+      expect(words).not.toContain('hello');
+      expect(words).not.toContain('that'); // Ends on T, two keys past E
+    });
+
+    it('lets frequency decide between words with the same trace', () => {
+      const trace = swipe('pol');
+      expect(decodeSwipe(trace, keys, WORDS, { pool: 100, pol: 1 })[0].word).toBe('pool');
+      expect(decodeSwipe(trace, keys, WORDS, { pool: 1, pol: 100 })[0].word).toBe('pol');
+    });
+
+    it('skips single letters, words without keys and degenerate input', () => {
+      expect(decodeSwipe(swipe('the'), keys, ['a', 'thé', 'the']).map(c => c.word)).toEqual(['the']);
+      expect(decodeSwipe([{ x: 0, y: 0 }], keys, WORDS)).toEqual([]);
+      expect(decodeSwipe(swipe('the'), { ...keys, keySize: 0 }, WORDS)).toEqual([]);
+    });
+
+    it('returns at most maxResults, best first', () => {
+      const candidates = decodeSwipe(swipe('the'), keys, WORDS, {}, 2);
+      expect(candidates).toHaveLength(2);
+      expect(candidates[0].score).toBeLessThanOrEqual(candidates[1].score);
+    });
+  });
+});
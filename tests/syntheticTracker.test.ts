@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGestureEngine, LANDMARKS } from '../services/gestureEngine';
+import { startHandTracker } from '../services/handTracking';
+import { DEFAULT_SETTINGS } from '../services/settingsStore';
+import { DEFAULT_SYNTHETIC_SCRIPT, syntheticPoseAt } from '../services/trackers/syntheticTracker';
+import { HandTrackerStartOptions, HandTrackingFrame } from '../types';
+
+// Starts the synthetic backend through the same entry point as App and collects `ms` of frames
+const run = async (ms: number) => {
+  vi.useFakeTimers();
+  const frames: { t: number; frame: HandTrackingFrame }[] = [];
+  const startedAt = performance.now();
+  const startCamera = vi.fn(async () => {});
+  const options = {
+    maxHands: 1,
+    onFrame: frame => {
+      frames.push({ t: performance.now() - startedAt, frame });
+    },
+  } as HandTrackerStartOptions; // Camera-free, so no video or canvas
+  const tracker = await startHandTracker('synthetic', options, startCamera);
+  vi.advanceTimersByTime(ms);
+  tracker.stop();
+  return { tracker, frames, startCamera };
+};
+
+describe('synthetic tracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('emits 30 frames a second without starting the camera', async () => {
+    const { tracker, frames, startCamera } = await run(1000);
+    expect(tracker.id).toBe('synthetic');
+    expect(startCamera).not.toHaveBeenCalled();
+    expect(frames.length).toBe(30);
+  });
+
+  it('emits one right hand, labelled as MediaPipe sees it, at the scripted fingertip', async () => {
+    const { frames } = await run(2000);
+    for (const { t, frame } of frames) {
+      const pose = syntheticPoseAt(DEFAULT_SYNTHETIC_SCRIPT, t)!;
+      expect(frame.multiHandedness).toEqual([{ label: 'Left', score: 1 }]);
+      expect(frame.multiHandLandmarks).toHaveLength(1);
+      const landmarks = frame.multiHandLandmarks[0];
+      expect(landmarks).toHaveLength(21);
+      expect(1 - landmarks[LANDMARKS.INDEX_TIP].x).toBeCloseTo(pose.x, 6);
+      expect(landmarks[LANDMARKS.INDEX_TIP].y).toBeCloseTo(pose.y, 6);
+    }
+  });
+
+  it('pinches where the script pinches', async () => {
+    const { frames } = await run(1100);
+    const engine = createGestureEngine();
+    const pinching = frames.map(({ t, frame }) => ({
+      t,
+      pinching: engine.process(frame.multiHandLandmarks[0], DEFAULT_SETTINGS).isPinching,
+    }));
+    // The first keyframe pinch runs from 800 to 1000 ms
+    expect(pinching.filter(p => p.t < 800).some(p => p.pinching)).toBe(false);
+    expect(pinching.filter(p => p.t > 850 && p.t < 1000).every(p => p.pinching)).toBe(true);
+  });
+
+  it('sends empty frames while the hand is out of view', async () => {
+    const { frames } = await run(6400);
+    const hidden = frames.filter(({ t }) => t >= 6000 && t < 6400);
+    expect(hidden.length).toBeGreaterThan(0);
+    for (const { frame } of hidden) {
+      expect(frame.multiHandLandmarks).toEqual([]);
+      expect(frame.multiHandedness).toEqual([]);
+    }
+  });
+});
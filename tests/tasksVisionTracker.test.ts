@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTasksVisionTracker, WorkerRequest } from '../services/trackers/tasksVisionTracker';
+import { HandTrackerStartOptions } from '../types';
+
+// A worker that loads instantly: answers 'init' with 'ready'
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  received: WorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    workers.push(this);
+  }
+
+  postMessage(request: WorkerRequest) {
+    this.received.push(request);
+    if (request.type === 'init') queueMicrotask(() => this.onmessage?.({ data: { type: 'ready' } }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+let workers: FakeWorker[] = [];
+
+// A canvas whose control, like the DOM's, can be transferred once
+const createCanvas = () => {
+  let transferred = false;
+  return {
+    transferControlToOffscreen: vi.fn(() => {
+      if (transferred) throw new DOMException('Cannot transfer control from a canvas more than once.', 'InvalidStateError');
+      transferred = true;
+      return {};
+    }),
+  };
+};
+
+const startOptions = (canvas: ReturnType<typeof createCanvas>, signal?: AbortSignal) => ({
+  video: { readyState: 0 },
+  canvas,
+  maxHands: 1,
+  onFrame: () => {},
+  signal,
+}) as unknown as HandTrackerStartOptions;
+
+describe('tasks-vision tracker start', () => {
+  beforeEach(() => {
+    workers = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', () => Promise.resolve({}));
+    vi.stubGlobal('HTMLCanvasElement', class { transferControlToOffscreen() {} });
+    vi.stubGlobal('location', { href: 'http://localhost/' });
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('hands the canvas to the worker once the model is ready', async () => {
+    const canvas = createCanvas();
+    await createTasksVisionTracker().start(startOptions(canvas));
+    expect(workers[0].received.map(r => r.type)).toEqual(['init', 'canvas']);
+  });
+
+  it('rejects instead of hanging when the canvas was already handed to another tracker', async () => {
+    const canvas = createCanvas();
+    const first = createTasksVisionTracker().start(startOptions(canvas));
+    const second = createTasksVisionTracker().start(startOptions(canvas));
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).rejects.toThrow(/more than once/);
+    expect(workers[1].terminated).toBe(true);
+  });
+
+  it('leaves the canvas alone when the caller gave up while the model loaded', async () => {
+    const canvas = createCanvas();
+    const unmounted = new AbortController();
+    const first = createTasksVisionTracker().start(startOptions(canvas, unmounted.signal));
+    unmounted.abort();
+    const second = createTasksVisionTracker().start(startOptions(canvas));
+
+    await expect(first).rejects.toThrow('Hand tracking start was cancelled');
+    await expect(second).resolves.toBeUndefined();
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].received.map(r => r.type)).toEqual(['init', 'canvas']);
+  });
+});
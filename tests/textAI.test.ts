@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIRequestEvent } from '../services/aiRequestManager';
+import { DEFAULT_TEMPLATES } from '../services/promptTemplates';
+
+// The mock provider, answering or failing as each test says
+const generate = vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'mock';
+  return vi.fn();
+});
+vi.mock('../services/providers/mockProvider', () => ({ createMockProvider: () => ({ id: 'mock', generate }) }));
+
+const { aiRequests, rewriteText } = await import('../services/textAI');
+const [template] = DEFAULT_TEMPLATES;
+
+describe('rewriteText', () => {
+  it('returns the correction and its edits', async () => {
+    generate.mockResolvedValueOnce('I am here.');
+    const correction = await rewriteText(template, 'i am here');
+    expect(correction?.corrected).toBe('I am here.');
+    expect(correction?.edits.length).toBeGreaterThan(0);
+  });
+
+  it('returns null and reports the failure when the provider fails', async () => {
+    const events: AIRequestEvent[] = [];
+    const unsubscribe = aiRequests.subscribe(event => events.push(event));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generate.mockRejectedValueOnce(new Error('Service unavailable'));
+
+    expect(await rewriteText(template, 'teh text')).toBeNull();
+    expect(events.map(e => e.type)).toEqual(['started', 'failed']);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIRequestEvent } from '../services/aiRequestManager';
+import { DEFAULT_TEMPLATES } from '../services/promptTemplates';
+
+vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'mock';
+});
+
+// AI_PROVIDER=mock is read when textAI loads, so everything below runs on the real mock provider
+const { aiRequests, aiRequiresNetwork, createTextAIProvider, readTextAIConfig, rewriteText, streamCompletion } = await import('../services/textAI');
+const fix = DEFAULT_TEMPLATES.find(t => t.id === 'fix')!;
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  const collected: string[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+};
+
+// Runs a call to the end on fake timers, past the manager's debounce and the mock's latency
+const settle = async <T>(call: Promise<T>) => {
+  await vi.runAllTimersAsync();
+  return call;
+};
+
+describe('mock provider through textAI', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is selected by config and works offline', () => {
+    expect(readTextAIConfig().provider).toBe('mock');
+    expect(aiRequiresNetwork).toBe(false);
+  });
+
+  it('corrects text for AI FIX', async () => {
+    vi.useFakeTimers();
+    const events: AIRequestEvent[] = [];
+    const unsubscribe = aiRequests.subscribe(event => events.push(event));
+
+    const correction = await settle(rewriteText(fix, 'i dont know teh answer'));
+    expect(correction?.corrected).toBe("I don't know the answer.");
+    expect(correction?.edits.length).toBeGreaterThan(0);
+    expect(events.map(e => e.type)).toEqual(['started', 'finished']);
+    unsubscribe();
+  });
+
+  it('streams the same completion word by word for AI_AUTOCOMPLETE', async () => {
+    vi.useFakeTimers();
+    const first = await settle(collect(streamCompletion('see you la')));
+    expect(first).toEqual(['rge ', 'later ', 'today']);
+
+    // A second provider built from the same config gives the same answer in one piece
+    const provider = createTextAIProvider(readTextAIConfig());
+    const whole = await settle(provider.generate({ task: 'complete', text: 'see you la', system: '', prompt: '' }));
+    expect(whole).toBe(first.join(''));
+  });
+});
+
+describe('createTextAIProvider', () => {
+  it('rejects an openai provider without an absolute base URL', () => {
+    for (const baseUrl of ['', '/v1', 'localhost:11434/v1', 'ftp://example.com']) {
+      expect(() => createTextAIProvider({ provider: 'openai', apiKey: '', model: 'llama3', baseUrl }))
+        .toThrow(/AI_BASE_URL must be an absolute http\(s\) URL/);
+    }
+  });
+
+  it('accepts an openai provider with an absolute base URL', () => {
+    const provider = createTextAIProvider({ provider: 'openai', apiKey: '', model: 'llama3', baseUrl: 'http://localhost:11434/v1/' });
+    expect(provider.id).toBe('openai');
+  });
+});
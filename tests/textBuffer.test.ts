@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBuffer, deleteBackward, insertSegment, insertText, moveCaret, replaceRange, selectionRange, setCaret,
+} from '../services/textBuffer';
+import { TextBuffer } from '../types';
+
+// "say hello there" with "hello" dictated
+const dictated = (): TextBuffer => ({ ...createBuffer('say hello there'), segments: [{ start: 4, end: 9, source: 'dictation' }] });
+
+const select = (buffer: TextBuffer, anchor: number, focus: number): TextBuffer => ({ ...buffer, anchor, focus });
+
+describe('text buffer', () => {
+  describe('caret and selection', () => {
+    it('starts with the caret at the end and clamps it to the text', () => {
+      expect(createBuffer('abc')).toMatchObject({ anchor: 3, focus: 3 });
+      expect(setCaret(createBuffer('abc'), -2)).toMatchObject({ anchor: 0, focus: 0 });
+      expect(setCaret(createBuffer('abc'), 10)).toMatchObject({ anchor: 3, focus: 3 });
+    });
+
+    it('orders a backwards selection', () => {
+      expect(selectionRange(select(createBuffer('abcdef'), 5, 2))).toEqual([2, 5]);
+    });
+  });
+
+  describe('insert and delete', () => {
+    it('inserts at the caret and moves it past the insertion', () => {
+      expect(insertText(setCaret(createBuffer('held'), 3), 'l')).toMatchObject({ text: 'helld', anchor: 4, focus: 4 });
+    });
+
+    it('replaces a selection, whichever way it was made', () => {
+      expect(insertText(select(createBuffer('a big dog'), 5, 2), 'red')).toMatchObject({ text: 'a red dog', anchor: 5, focus: 5 });
+    });
+
+    it('deletes the character before the caret, or the selection', () => {
+      expect(deleteBackward(setCaret(createBuffer('abc'), 2))).toMatchObject({ text: 'ac', focus: 1 });
+      expect(deleteBackward(select(createBuffer('abcdef'), 1, 4))).toMatchObject({ text: 'aef', anchor: 1, focus: 1 });
+    });
+
+    it('does nothing on backspace at the start', () => {
+      const buffer = setCaret(createBuffer('abc'), 0);
+      expect(deleteBackward(buffer)).toBe(buffer);
+    });
+  });
+
+  describe('segments on edits', () => {
+    it('shifts segments after the edit and keeps those before it', () => {
+      expect(replaceRange(dictated(), 0, 0, 'I ').segments).toEqual([{ start: 6, end: 11, source: 'dictation' }]);
+      expect(replaceRange(dictated(), 0, 4, '').segments).toEqual([{ start: 0, end: 5, source: 'dictation' }]);
+      expect(replaceRange(dictated(), 15, 15, '!').segments).toEqual(dictated().segments);
+    });
+
+    it('does not grow a segment for typing right at its edges', () => {
+      expect(replaceRange(dictated(), 9, 9, 'o').segments).toEqual([{ start: 4, end: 9, source: 'dictation' }]);
+      expect(replaceRange(dictated(), 4, 4, 'oh ').segments).toEqual([{ start: 7, end: 12, source: 'dictation' }]);
+    });
+
+    it('grows and shrinks a segment for edits inside it', () => {
+      expect(replaceRange(dictated(), 6, 6, 'XY').segments).toEqual([{ start: 4, end: 11, source: 'dictation' }]);
+      expect(replaceRange(dictated(), 5, 8, '').segments).toEqual([{ start: 4, end: 6, source: 'dictation' }]);
+    });
+
+    it('keeps a replaced segment marked, so a correction of dictated text stays dictated', () => {
+      const corrected = replaceRange(dictated(), 4, 9, 'Hello!');
+      expect(corrected.text).toBe('say Hello! there');
+      expect(corrected.segments).toEqual([{ start: 4, end: 10, source: 'dictation' }]);
+    });
+
+    it('clips a segment an edit overlaps from outside', () => {
+      const edited = replaceRange(dictated(), 2, 6, '');
+      expect(edited.text).toBe('sallo there');
+      expect(edited.segments).toEqual([{ start: 2, end: 5, source: 'dictation' }]);
+    });
+
+    it('drops a segment whose text is deleted', () => {
+      expect(replaceRange(dictated(), 3, 9, '').segments).toEqual([]);
+    });
+  });
+
+  describe('insertSegment', () => {
+    it('marks the inserted text and keeps segments sorted', () => {
+      const buffer = insertSegment(setCaret(dictated(), 0), 'so ', 'dictation');
+      expect(buffer.text).toBe('so say hello there');
+      expect(buffer.segments).toEqual([
+        { start: 0, end: 3, source: 'dictation' },
+        { start: 7, end: 12, source: 'dictation' },
+      ]);
+    });
+
+    it('extends the segment it directly follows', () => {
+      expect(insertSegment(setCaret(dictated(), 9), ' world', 'dictation').segments)
+        .toEqual([{ start: 4, end: 15, source: 'dictation' }]);
+    });
+
+    it('adds nothing for an insertion inside a segment', () => {
+      expect(insertSegment(setCaret(dictated(), 6), 'l', 'dictation').segments)
+        .toEqual([{ start: 4, end: 10, source: 'dictation' }]);
+    });
+  });
+
+  describe('moveCaret', () => {
+    const text = createBuffer('one  two three');
+
+    it('moves by character within the text', () => {
+      expect(moveCaret(setCaret(text, 0), 'left', 'char').focus).toBe(0);
+      expect(moveCaret(setCaret(text, 3), 'right', 'char').focus).toBe(4);
+      expect(moveCaret(text, 'right', 'char').focus).toBe(14);
+    });
+
+    it('jumps over whitespace and then a word', () => {
+      expect(moveCaret(setCaret(text, 5), 'left', 'word').focus).toBe(0);
+      expect(moveCaret(setCaret(text, 3), 'right', 'word').focus).toBe(8);
+      expect(moveCaret(setCaret(text, 9), 'left', 'word').focus).toBe(5);
+    });
+
+    it('collapses a selection to the side the arrow points at', () => {
+      expect(moveCaret(select(text, 2, 6), 'left', 'char')).toMatchObject({ anchor: 2, focus: 2 });
+      expect(moveCaret(select(text, 6, 2), 'right', 'char')).toMatchObject({ anchor: 6, focus: 6 });
+    });
+
+    it('extends the selection from a fixed anchor', () => {
+      const extended = moveCaret(moveCaret(setCaret(text, 5), 'right', 'word', true), 'right', 'char', true);
+      expect(extended).toMatchObject({ anchor: 5, focus: 9 });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createBuffer, deleteBackward, insertText, setCaret } from '../services/textBuffer';
+import { canRedo, canUndo, createHistory, EditOptions, recordEdit, redo, TextHistory, undo } from '../services/textHistory';
+
+// Types each character the way App does: typing merges, whitespace closes the word
+const type = (history: TextHistory, chars: string, now = 0) =>
+  [...chars].reduce((h, char) => recordEdit(h, insertText(h.present, char), { group: 'typing', closeGroup: /\s/.test(char), now }), history);
+
+const backspace = (history: TextHistory, times: number, options: EditOptions = { group: 'delete', now: 0 }) =>
+  Array.from({ length: times }).reduce<TextHistory>(h => recordEdit(h, deleteBackward(h.present), options), history);
+
+// Texts seen undoing all the way back
+const undoAll = (history: TextHistory) => {
+  const texts: string[] = [];
+  for (let h = history; canUndo(h);) {
+    h = undo(h);
+    texts.push(h.present.text);
+  }
+  return texts;
+};
+
+const empty = () => createHistory(createBuffer());
+
+describe('text history', () => {
+  describe('undo groups', () => {
+    it('makes one step per typed word, closed by the whitespace after it', () => {
+      const history = type(empty(), 'hi there you');
+      expect(history.present.text).toBe('hi there you');
+      expect(undoAll(history)).toEqual(['hi there ', 'hi ', '']);
+    });
+
+    it('starts a new step when the kind of edit changes', () => {
+      const history = type(backspace(type(empty(), 'hello'), 2), 'p!');
+      expect(history.present.text).toBe('help!');
+      expect(undoAll(history)).toEqual(['hel', 'hello', '']);
+    });
+
+    it('starts a new step after a pause, even within a group', () => {
+      const history = type(type(empty(), 'ab', 0), 'cd', 5000);
+      expect(undoAll(history)).toEqual(['ab', '']);
+      expect(undoAll(type(type(empty(), 'ab', 0), 'cd', 4999))).toEqual(['']);
+    });
+
+    it('makes every ungrouped edit its own step', () => {
+      const history = backspace(type(empty(), 'abc'), 2, { now: 0 });
+      expect(undoAll(history)).toEqual(['ab', 'abc', '']);
+    });
+
+    it('closes the group on a caret move without recording a step', () => {
+      const typed = type(empty(), 'ab');
+      const moved = recordEdit(typed, setCaret(typed.present, 0));
+      expect(moved.past).toBe(typed.past);
+      expect(moved.openGroup).toBeNull();
+      expect(undoAll(type(moved, 'x'))).toEqual(['ab', '']);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('walks back and forth between steps, restoring the caret', () => {
+      const typed = type(empty(), 'one two');
+      const undone = undo(typed);
+      expect(undone.present).toMatchObject({ text: 'one ', focus: 4 });
+      expect(canRedo(undone)).toBe(true);
+      expect(redo(undone).present).toBe(typed.present);
+    });
+
+    it('drops the redo steps on a new edit', () => {
+      const history = type(undo(type(empty(), 'one two')), 'three');
+      expect(canRedo(history)).toBe(false);
+      expect(history.present.text).toBe('one three');
+    });
+
+    it('does not merge typing after an undo into the undone-to step', () => {
+      const history = type(undo(type(empty(), 'one two')), 'x');
+      expect(undoAll(history)).toEqual(['one ', '']);
+    });
+
+    it('returns the same history when there is nothing to undo or redo', () => {
+      const history = empty();
+      expect(undo(history)).toBe(history);
+      expect(redo(history)).toBe(history);
+    });
+
+    it('keeps at most 200 steps', () => {
+      const history = backspace(type(empty(), 'x'.repeat(250)), 250, { now: 0 });
+      expect(history.past).toHaveLength(200);
+      expect(undoAll(history).at(-1)).toBe('x'.repeat(200)); // The oldest 51 steps are gone
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { listLayouts, validateLayout } from '../layouts';
+
+const layoutWith = (base: unknown) => ({ id: 'test', name: 'Test', layers: { base } });
+
+describe('validateLayout', () => {
+  it('accepts every built-in layout', () => {
+    for (const layout of listLayouts()) expect(validateLayout(layout)).toEqual([]);
+  });
+
+  it('rejects values that are not layouts', () => {
+    expect(validateLayout(null)).toEqual(['layout must be an object']);
+    expect(validateLayout('qwerty')).toEqual(['layout must be an object']);
+    expect(validateLayout({ id: '', layers: 3 })).toEqual([
+      'layout is missing an id',
+      'layout is missing a name',
+      'layout is missing layers',
+    ]);
+  });
+
+  it('reports unknown layers and empty rows', () => {
+    expect(validateLayout({ id: 'x', name: 'X', layers: { base: [], extra: [] } })).toEqual([
+      'unknown layer "extra"',
+      'layer "base" must be a non-empty array of rows',
+    ]);
+    expect(validateLayout(layoutWith([[]]))).toEqual(['base[0] must be a non-empty array of keys']);
+  });
+
+  it('reports each bad key by position', () => {
+    expect(validateLayout(layoutWith([[
+      'q',
+      { id: 'a', label: 'A', value: 'a' },
+      { id: 'a', label: 'A', value: 'a' },
+      { id: 'go', label: 'GO', value: 'LAUNCH', type: 'action' },
+      { id: 'w"', label: 'W', value: 'w', type: 'glyph', width: 0 },
+    ]]))).toEqual([
+      'base[0][0] is not a key',
+      'base[0][2] duplicates key id "a"',
+      'base[0][3] has unknown action "LAUNCH"',
+      'base[0][4] id "w"" contains a quote or backslash',
+      'base[0][4] has unknown type "glyph"',
+      'base[0][4] has an invalid width',
+    ]);
+  });
+});
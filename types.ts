@@ -3,7 +3,53 @@ export interface Key {
   label: string;
   value: string;
   width?: number; // Relative width (1 = standard key)
-  type?: 'char' | 'action';
+  type?: 'char' | 'action' | 'ai'; // 'ai' keys are built from prompt templates, value = template id
+}
+
+// Values an action key may carry
+export type KeyAction =
+  | 'BACKSPACE' | 'ENTER' | 'SHIFT' | 'CLEAR' | 'AI_ACTIONS' | 'SYMBOLS' | 'LETTERS'
+  | 'CURSOR_LEFT' | 'CURSOR_RIGHT' | 'WORD_LEFT' | 'WORD_RIGHT' | 'UNDO' | 'REDO'
+  | 'DICTATION' | 'FIX_DICTATION';
+
+export type KeyModifier = 'SHIFT' | 'SYMBOLS' | 'LETTERS' | 'AI_ACTIONS';
+
+export type KeyCommand = 'CLEAR' | 'UNDO' | 'REDO' | 'TOGGLE_DICTATION' | 'FIX_DICTATION';
+
+// What a key press does, independent of how the key looks or which input source pressed it
+export type KeyDispatchAction =
+  | { type: 'insert'; text: string }
+  | { type: 'delete' }
+  | { type: 'newline' }
+  | { type: 'navigate'; direction: 'left' | 'right'; unit: 'char' | 'word' }
+  | { type: 'modifier'; modifier: KeyModifier }
+  | { type: 'command'; command: KeyCommand }
+  | { type: 'ai'; templateId: string };
+
+// A marked [start, end) range of the text, kept in place as the text around it is edited
+export interface TextSegment {
+  start: number;
+  end: number;
+  source: 'dictation';
+}
+
+// Editable text with a selection; anchor === focus means a collapsed caret at focus
+export interface TextBuffer {
+  text: string;
+  anchor: number;
+  focus: number;
+  segments: TextSegment[];
+}
+
+export type ShiftState = 'off' | 'once' | 'locked';
+
+export type KeyboardLayer = 'base' | 'symbols' | 'ai';
+
+export interface KeyboardLayout {
+  id: string;
+  name: string;
+  // Layouts without a symbols layer stay on the base rows
+  layers: { base: Key[][]; symbols?: Key[][]; ai?: Key[][] }; // 'ai' is generated at runtime from prompt templates
 }
 
 export interface HandLandmark {
@@ -12,6 +58,143 @@ export interface HandLandmark {
   z: number;
 }
 
+export interface Handedness {
+  label: string; // 'Left' | 'Right' as reported by MediaPipe
+  score: number;
+}
+
+export interface LandmarkFrame {
+  t: number; // ms since the start of the recording
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness?: Handedness[];
+}
+
+export interface LandmarkSession {
+  version: number;
+  recordedAt: string;
+  frames: LandmarkFrame[];
+}
+
+// --- Hand Tracking Backends ---
+
+export type HandTrackerId = 'tasks-vision' | 'legacy' | 'synthetic';
+
+// One tracker result: landmarks per detected hand, in detection order
+export interface HandTrackingFrame {
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness: Handedness[];
+  image: CanvasImageSource | null; // Camera frame to dim under the overlay, null when there is none
+  inferenceMs: number | null; // Model time for this frame, when the tracker measures it
+  overlayDrawn?: boolean; // The tracker already drew this frame on the canvas it owns
+}
+
+export interface OverlayHand {
+  landmarks: HandLandmark[];
+  assist: boolean; // Assist hands are drawn dimmed in purple
+}
+
+// Trackers that take over the overlay canvas (the tasks-vision worker) draw through this instead of the page
+export interface TrackerOverlay {
+  draw: (hands: OverlayHand[]) => void; // Frames the tracker didn't produce, e.g. replays
+  setRoles: (assist: boolean[]) => void; // Per detected hand, for the frames it draws itself
+  resize: (width: number, height: number) => void;
+}
+
+export interface HandTrackerStartOptions {
+  video: HTMLVideoElement; // Already playing the camera stream, for trackers that use it
+  canvas: HTMLCanvasElement;
+  maxHands: number;
+  onFrame: (frame: HandTrackingFrame) => void;
+  signal?: AbortSignal; // Aborted when the caller no longer wants the tracker, even before start() settles
+}
+
+export interface HandTracker {
+  id: HandTrackerId;
+  usesCamera: boolean;
+  overlay: TrackerOverlay | null;
+  // Resolves once the model is loaded and frames are flowing; rejects if the backend can't run here
+  start: (options: HandTrackerStartOptions) => Promise<void>;
+  setMaxHands: (maxHands: number) => void;
+  stop: () => void;
+}
+
+export type GestureMode = 'move' | 'click' | 'wait';
+
+export interface FingerStates {
+  index: boolean;
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+}
+
+// Distances are in palm lengths (3D wrist to middle knuckle), so they hold at any camera distance
+export interface GestureSettings {
+  pinchThreshold: number; // Fingertip gap that starts a pinch
+  pinchReleaseThreshold: number; // Gap that ends it, wider than pinchThreshold so the click doesn't flicker
+  extensionThreshold: number; // How much further from the wrist a fingertip must be than its middle joint to count as extended
+}
+
+// Discrete poses that fire once per hold
+export type GestureCommand = 'undo' | 'redo';
+
+// How a hovered key gets pressed: pinch/2-finger gesture, or holding the cursor still over it
+export type ActivationMode = 'pinch' | 'dwell';
+
+// The user's physical hand, after correcting MediaPipe's mirrored handedness labels
+export type HandSide = 'left' | 'right';
+
+// single: one hand points and clicks
+// split: each hand drives its own cursor over its half of the keyboard
+// roles: one hand points, the other (assist) hand clicks and holds Shift
+export type HandMode = 'single' | 'split' | 'roles';
+
+export type HandRole = 'pointer' | 'assist';
+
+export interface HandCursor {
+  hand: HandSide;
+  x: number;
+  y: number;
+  isPinching: boolean;
+  hoveredKey: string | null;
+  dwellProgress: number;
+}
+
+export type CursorFilterKind = 'ema' | 'oneEuro' | 'kalman';
+
+// Positions are normalized screen units (0..1), speeds per second
+export interface CursorFilterSettings {
+  cursorFilter: CursorFilterKind;
+  cursorSmoothing: number; // EMA: fraction of the way to the new position per frame
+  oneEuroMinCutoff: number; // One Euro: cutoff in Hz when still, lower = smoother
+  oneEuroBeta: number; // One Euro: how fast the cutoff rises with speed, higher = less lag
+  kalmanProcessNoise: number; // Kalman: expected acceleration, higher = follows fast moves sooner
+  kalmanMeasurementNoise: number; // Kalman: expected tracking noise, higher = smoother
+  cursorPredictionMs: number; // Push the cursor ahead along its velocity to make up for smoothing lag
+}
+
+export interface AppSettings extends GestureSettings, CursorFilterSettings {
+  layoutId: string;
+  activationMode: ActivationMode;
+  dwellTimeMs: number;
+  handMode: HandMode;
+  pointerHand: HandSide;
+  swipeTyping: boolean;
+  aiRequestsPerMinute: number;
+}
+
+export interface GestureResult {
+  mode: GestureMode;
+  fingers: FingerStates;
+  extendedCount: number;
+  pinchDistance: number; // Thumb to index fingertip, in palm lengths
+  pinchStrength: number; // 0 = fingers apart, 1 = fingertips touching
+  isPinching: boolean;
+  isTwoFinger: boolean;
+  isOpenHand: boolean;
+  confidence: number; // 0..1, how decisively the frame supports the reported mode
+  command: GestureCommand | null; // Set only on the frame a command pose is confirmed
+}
+
 export enum AppState {
   LOADING = 'LOADING',
   READY = 'READY',
@@ -24,3 +207,46 @@ export interface Rect {
   width: number;
   height: number;
 }
+
+// --- Text AI ---
+
+export type AITask = 'rewrite' | 'complete';
+
+// A user-editable AI action; each one becomes a key on the AI layer
+export interface PromptTemplate {
+  id: string;
+  label: string;
+  instruction: string;
+}
+
+export interface TextAIRequest {
+  task: AITask;
+  templateId?: string;
+  text: string; // The user's text the prompt was built from
+  system: string; // Instructions, kept apart from the user's text
+  prompt: string; // The user's text, delimited
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+// One change between original and corrected text, as a [start, end) range of the original
+export interface TextEdit {
+  id: number;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+export interface Correction {
+  original: string;
+  corrected: string;
+  edits: TextEdit[];
+}
+
+// A model backend; throws on failure so callers decide the fallback
+export interface TextAIProvider {
+  id: string;
+  generate: (request: TextAIRequest) => Promise<string>;
+  stream?: (request: TextAIRequest) => AsyncIterable<string>; // Yields text chunks as they arrive
+}
@@ -1,6 +1,55 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import { VitePWA } from 'vite-plugin-pwa';
+
+// MediaPipe runtimes locate their wasm, packed assets and models by URL at runtime instead of importing them,
+// so the files are served straight from node_modules in dev and copied into the build under the same paths
+const MEDIAPIPE_ASSETS: Record<string, { dir: string; files: RegExp }> = {
+  'mediapipe/hands': { dir: 'node_modules/@mediapipe/hands', files: /\.(js|wasm|data|tflite|binarypb)$/ },
+  // Only the binaries: the worker bundles the wasm glue, see mediapipeWasmGlue
+  'mediapipe/tasks-vision/wasm': { dir: 'node_modules/@mediapipe/tasks-vision/wasm', files: /\.wasm$/ },
+};
+const CONTENT_TYPES: Record<string, string> = { '.js': 'text/javascript', '.wasm': 'application/wasm' };
+
+const mediapipeAssets = (): Plugin => ({
+  name: 'mediapipe-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const url = (req.url ?? '').split('?')[0];
+      for (const [prefix, { dir, files }] of Object.entries(MEDIAPIPE_ASSETS)) {
+        if (!url.startsWith(`/${prefix}/`)) continue;
+        const file = path.resolve(__dirname, dir, path.basename(url));
+        if (!files.test(file) || !fs.existsSync(file)) break;
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+        return;
+      }
+      next();
+    });
+  },
+  generateBundle() {
+    for (const [prefix, { dir, files }] of Object.entries(MEDIAPIPE_ASSETS)) {
+      for (const name of fs.readdirSync(path.resolve(__dirname, dir)).filter(name => files.test(name))) {
+        this.emitFile({ type: 'asset', fileName: `${prefix}/${name}`, source: fs.readFileSync(path.resolve(__dirname, dir, name)) });
+      }
+    }
+  },
+});
+
+// The tasks-vision wasm glue is a classic script defining a global ModuleFactory, which tasks-vision loads with
+// importScripts. Module workers can't do that, so the worker imports the glue with this export added instead.
+const TASKS_VISION_GLUE = /\/@mediapipe\/tasks-vision\/wasm\/vision_wasm(_nosimd)?_internal\.js$/;
+
+const mediapipeWasmGlue = (): Plugin => ({
+  name: 'mediapipe-wasm-glue',
+  transform(code, id) {
+    if (!TASKS_VISION_GLUE.test(id.split('?')[0])) return null;
+    return { code: `${code}\nexport default ModuleFactory;\n`, map: null };
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,14 +58,57 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        mediapipeAssets(),
+        mediapipeWasmGlue(),
+        VitePWA({
+          registerType: 'autoUpdate',
+          includeAssets: ['icon.svg'],
+          manifest: {
+            name: 'AirType AI - Gesture Keyboard',
+            short_name: 'AirType',
+            description: 'A touchless virtual keyboard powered by hand tracking. Type in the air using gestures.',
+            display: 'fullscreen',
+            background_color: '#020617',
+            theme_color: '#020617',
+            icons: [{ src: 'icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+          },
+          workbox: {
+            // Everything the app needs offline, MediaPipe runtimes and models included
+            globPatterns: ['**/*.{js,css,html,svg,woff,woff2,wasm,data,tflite,binarypb,task}'],
+            globIgnores: ['**/hand_landmark_lite.tflite'],
+            maximumFileSizeToCacheInBytes: 16 * 1024 * 1024,
+          },
+        }),
+      ],
+      css: {
+        postcss: {
+          plugins: [tailwindcss({ content: ['./index.html', './*.tsx', './components/**/*.tsx'] })],
+        },
+      },
+      optimizeDeps: {
+        // Served through mediapipeWasmGlue in dev too, rather than pre-bundled as CommonJS
+        exclude: ['@mediapipe/tasks-vision/wasm/vision_wasm_internal.js', '@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.js'],
+      },
+      worker: {
+        format: 'es',
+        plugins: () => [mediapipeWasmGlue()],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+        'process.env.HAND_TRACKER': JSON.stringify(env.HAND_TRACKER)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // The package's exports map hides the wasm folder
+          '@mediapipe/tasks-vision/wasm': path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm'),
         }
       }
     };
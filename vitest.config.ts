@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests don't load the React, PWA and MediaPipe asset plugins
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+  },
+});